@@ -4,7 +4,7 @@
  */
 
 import type { EnhancedComponent } from '../src/types';
-import { useReactive } from '../src/composables/useReactive';
+import { useRef } from '../src/composables/useRef';
 import { useComputed } from '../src/composables/useComputed';
 
 export interface UseCounterOptions {
@@ -43,32 +43,30 @@ export function useCounter(
 ): UseCounterReturn {
   const { min = -Infinity, max = Infinity, step = 1 } = options;
 
-  const state = useReactive(component, {
-    count: Math.max(min, Math.min(max, initialValue)),
-  });
+  const count = useRef(component, Math.max(min, Math.min(max, initialValue)));
 
-  const isAtMin = useComputed(component, () => state.count <= min);
-  const isAtMax = useComputed(component, () => state.count >= max);
+  const isAtMin = useComputed(component, () => count.value <= min);
+  const isAtMax = useComputed(component, () => count.value >= max);
 
   const increment = () => {
-    state.count = Math.min(max, state.count + step);
+    count.value = Math.min(max, count.value + step);
   };
 
   const decrement = () => {
-    state.count = Math.max(min, state.count - step);
+    count.value = Math.max(min, count.value - step);
   };
 
   const reset = () => {
-    state.count = initialValue;
+    count.value = initialValue;
   };
 
   const set = (value: number) => {
-    state.count = Math.max(min, Math.min(max, value));
+    count.value = Math.max(min, Math.min(max, value));
   };
 
   return {
     get count() {
-      return state.count;
+      return count.value;
     },
     set count(value: number) {
       set(value);
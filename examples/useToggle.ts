@@ -4,7 +4,7 @@
  * It's an example of how to create custom composables
  */
 
-import { useReactive, type EnhancedComponent } from 'riot-composables';
+import { useRef, type EnhancedComponent } from 'riot-composables';
 
 export interface UseToggleReturn {
   value: boolean;
@@ -30,7 +30,7 @@ export function useToggle(
   component: EnhancedComponent,
   initialValue = false,
 ): UseToggleReturn {
-  const state = useReactive(component, { value: initialValue });
+  const state = useRef(component, initialValue);
 
   const toggle = () => {
     state.value = !state.value;
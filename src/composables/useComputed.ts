@@ -3,14 +3,27 @@
  * Creates cached computed values
  */
 
-import type { EnhancedComponent } from '../types';
+import type {
+  EnhancedComponent,
+  Ref,
+  WritableComputedOptions,
+  AsyncComputed,
+  AsyncComputedGetter,
+  AsyncComputedOptions,
+} from '../types';
+import { createAsyncComputed } from '../core/computed';
+import { resolveComponentArgs } from '../core/instance';
 
 /**
  * Create a computed value with automatic caching
  *
- * @param component - The Riot component instance
- * @param getter - Function to compute the value
- * @returns Object with readonly value property
+ * Passing `{ get, set }` creates a writable computed value, whose
+ * assignments are routed to `set`
+ *
+ * @param component - The Riot component instance (defaults to the current
+ * component in `setup` or `onBeforeMount`)
+ * @param getter - Function to compute the value, or `{ get, set }`
+ * @returns Object with readonly value property (writable with `{ get, set }`)
  *
  * @example
  * ```ts
@@ -19,11 +32,81 @@ import type { EnhancedComponent } from '../types';
  *
  * // In template
  * <p>Doubled: {doubled.value}</p>
+ *
+ * // Two-way conversion
+ * const fahrenheit = useComputed(component, {
+ *   get: () => state.celsius * 1.8 + 32,
+ *   set: (value) => (state.celsius = (value - 32) / 1.8)
+ * })
+ * fahrenheit.value = 212 // state.celsius === 100
  * ```
  */
 export function useComputed<T>(
   component: EnhancedComponent,
   getter: () => T,
-): { readonly value: T } {
-  return component.$computed(getter);
+): { readonly value: T };
+export function useComputed<T>(
+  component: EnhancedComponent,
+  options: WritableComputedOptions<T>,
+): Ref<T>;
+export function useComputed<T>(getter: () => T): { readonly value: T };
+export function useComputed<T>(options: WritableComputedOptions<T>): Ref<T>;
+export function useComputed(...args: any[]): { readonly value: any } {
+  const [component, getterOrOptions] = resolveComponentArgs(
+    'useComputed',
+    args,
+  );
+  return component.$computed(getterOrOptions);
+}
+
+/**
+ * Create a computed value from an async getter, with its loading and
+ * error state
+ * Outdated evaluations are aborted when the state they read changes
+ *
+ * @param component - The Riot component instance (defaults to the current
+ * component in `setup` or `onBeforeMount`)
+ * @param getter - Async function computing the value, receiving an AbortSignal
+ * @param options - Optional `initial` value and `lazy` evaluation
+ * @returns Reactive `value`, `loading` and `error` fields
+ *
+ * @example
+ * ```ts
+ * const state = useReactive(component, { userId: 1 })
+ *
+ * const user = useAsyncComputed(component, async (signal) => {
+ *   const response = await fetch(`/users/${state.userId}`, { signal })
+ *   return response.json()
+ * })
+ *
+ * // In template
+ * <p if={user.loading}>Loading...</p>
+ * <p if={user.error}>Could not load the user</p>
+ * <p if={user.value}>{user.value.name}</p>
+ * ```
+ */
+export function useAsyncComputed<T>(
+  component: EnhancedComponent,
+  getter: AsyncComputedGetter<T>,
+  options: AsyncComputedOptions<T> & { initial: T },
+): AsyncComputed<T>;
+export function useAsyncComputed<T>(
+  component: EnhancedComponent,
+  getter: AsyncComputedGetter<T>,
+  options?: AsyncComputedOptions<T>,
+): AsyncComputed<T | undefined>;
+export function useAsyncComputed<T>(
+  getter: AsyncComputedGetter<T>,
+  options: AsyncComputedOptions<T> & { initial: T },
+): AsyncComputed<T>;
+export function useAsyncComputed<T>(
+  getter: AsyncComputedGetter<T>,
+  options?: AsyncComputedOptions<T>,
+): AsyncComputed<T | undefined>;
+export function useAsyncComputed(...args: any[]): AsyncComputed<any> {
+  const [component, getter, options] = resolveComponentArgs(
+    'useAsyncComputed',
+    args,
+  );
+  return createAsyncComputed(component, getter, options);
 }
@@ -3,14 +3,24 @@
  * Handles side effects in Riot components
  */
 
-import type { EnhancedComponent, EffectFunction, DepsGetter } from '../types';
+import type {
+  EnhancedComponent,
+  EffectFunction,
+  DepsGetter,
+  EffectOptions,
+  StopHandle,
+} from '../types';
+import { resolveComponentArgs } from '../core/instance';
 
 /**
  * Execute side effects with optional dependency tracking
  *
- * @param component - The Riot component instance
+ * @param component - The Riot component instance (defaults to the current
+ * component in `setup` or `onBeforeMount`)
  * @param effect - Effect function to run
  * @param deps - Optional dependency getter
+ * @param options - Optional `flush` timing of re-runs (defaults to `'pre'`)
+ * @returns Handle stopping, pausing or resuming the effect
  *
  * @example
  * ```ts
@@ -24,20 +34,43 @@ import type { EnhancedComponent, EffectFunction, DepsGetter } from '../types';
  * useEffect(component, () => {
  *   document.title = `Count: ${state.count}`
  * }, () => [state.count])
+ *
+ * // Re-run after the DOM is patched, e.g. to measure an element
+ * useEffect(component, () => {
+ *   console.log(component.root.offsetHeight)
+ * }, () => [state.items.length], { flush: 'post' })
+ *
+ * // Async effect, the previous request is aborted when `query` changes
+ * useEffect(component, async (signal) => {
+ *   const response = await fetch(`/search?q=${state.query}`, { signal })
+ *   state.results = await response.json()
+ * }, () => [state.query])
  * ```
  */
 export function useEffect(
   component: EnhancedComponent,
   effect: EffectFunction,
   deps?: DepsGetter,
-): void {
-  component.$effect(effect, deps);
+  options?: EffectOptions,
+): StopHandle;
+export function useEffect(
+  effect: EffectFunction,
+  deps?: DepsGetter,
+  options?: EffectOptions,
+): StopHandle;
+export function useEffect(...args: any[]): StopHandle {
+  const [component, effect, deps, options] = resolveComponentArgs(
+    'useEffect',
+    args,
+  );
+  return component.$effect(effect, deps, options);
 }
 
 /**
  * Run effect only on mount
  *
- * @param component - The Riot component instance
+ * @param component - The Riot component instance (defaults to the current
+ * component in `setup` or `onBeforeMount`)
  * @param effect - Effect function to run on mount
  *
  * @example
@@ -50,14 +83,18 @@ export function useEffect(
 export function useMount(
   component: EnhancedComponent,
   effect: () => void | (() => void),
-): void {
+): void;
+export function useMount(effect: () => void | (() => void)): void;
+export function useMount(...args: any[]): void {
+  const [component, effect] = resolveComponentArgs('useMount', args);
   useEffect(component, effect, () => []);
 }
 
 /**
  * Run cleanup only on unmount
  *
- * @param component - The Riot component instance
+ * @param component - The Riot component instance (defaults to the current
+ * component in `setup` or `onBeforeMount`)
  * @param cleanup - Cleanup function to run on unmount
  *
  * @example
@@ -70,7 +107,10 @@ export function useMount(
 export function useUnmount(
   component: EnhancedComponent,
   cleanup: () => void,
-): void {
+): void;
+export function useUnmount(cleanup: () => void): void;
+export function useUnmount(...args: any[]): void {
+  const [component, cleanup] = resolveComponentArgs('useUnmount', args);
   useEffect(
     component,
     () => cleanup,
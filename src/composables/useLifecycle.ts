@@ -0,0 +1,142 @@
+/**
+ * Lifecycle composables
+ * Run code in a lifecycle phase of Riot components
+ */
+
+import type {
+  EnhancedComponent,
+  LifecycleHook,
+  LifecycleHookName,
+} from '../types';
+import { resolveComponentArgs } from '../core/instance';
+import { registerHook } from '../core/lifecycle';
+
+/**
+ * Register the hook passed to a lifecycle composable
+ */
+function useHook(
+  name: LifecycleHookName,
+  composableName: string,
+  args: any[],
+): void {
+  const [component, hook] = resolveComponentArgs(composableName, args);
+  registerHook(component, name, hook);
+}
+
+/**
+ * Run a hook before the component's first render
+ * Hooks registered in `setup` or `onBeforeMount` run once it returns
+ *
+ * @param component - The Riot component instance (defaults to the current
+ * component in `setup` or `onBeforeMount`)
+ * @param hook - Function called with the component's props and state
+ *
+ * @example
+ * ```ts
+ * useBeforeMount(component, (props) => {
+ *   state.items = props.initialItems ?? []
+ * })
+ * ```
+ */
+export function useBeforeMount(
+  component: EnhancedComponent,
+  hook: LifecycleHook,
+): void;
+export function useBeforeMount(hook: LifecycleHook): void;
+export function useBeforeMount(...args: any[]): void {
+  useHook('beforeMount', 'useBeforeMount', args);
+}
+
+/**
+ * Run a hook before each update, before the DOM is patched
+ *
+ * @param component - The Riot component instance (defaults to the current
+ * component in `setup` or `onBeforeMount`)
+ * @param hook - Function called with the component's props and state
+ *
+ * @example
+ * ```ts
+ * // Remember whether the list was scrolled to the bottom
+ * useBeforeUpdate(component, () => {
+ *   atBottom = list.scrollTop + list.clientHeight >= list.scrollHeight
+ * })
+ * ```
+ */
+export function useBeforeUpdate(
+  component: EnhancedComponent,
+  hook: LifecycleHook,
+): void;
+export function useBeforeUpdate(hook: LifecycleHook): void;
+export function useBeforeUpdate(...args: any[]): void {
+  useHook('beforeUpdate', 'useBeforeUpdate', args);
+}
+
+/**
+ * Run a hook after each update, once the DOM is patched
+ *
+ * @param component - The Riot component instance (defaults to the current
+ * component in `setup` or `onBeforeMount`)
+ * @param hook - Function called with the component's props and state
+ *
+ * @example
+ * ```ts
+ * useUpdated(component, () => {
+ *   if (atBottom) list.scrollTop = list.scrollHeight
+ * })
+ * ```
+ */
+export function useUpdated(
+  component: EnhancedComponent,
+  hook: LifecycleHook,
+): void;
+export function useUpdated(hook: LifecycleHook): void;
+export function useUpdated(...args: any[]): void {
+  useHook('updated', 'useUpdated', args);
+}
+
+/**
+ * Run a hook before the component unmounts, while its DOM, effects and
+ * watchers are still in place
+ *
+ * @param component - The Riot component instance (defaults to the current
+ * component in `setup` or `onBeforeMount`)
+ * @param hook - Function called with the component's props and state
+ *
+ * @example
+ * ```ts
+ * useBeforeUnmount(component, () => {
+ *   sessionStorage.setItem('scroll', String(list.scrollTop))
+ * })
+ * ```
+ */
+export function useBeforeUnmount(
+  component: EnhancedComponent,
+  hook: LifecycleHook,
+): void;
+export function useBeforeUnmount(hook: LifecycleHook): void;
+export function useBeforeUnmount(...args: any[]): void {
+  useHook('beforeUnmount', 'useBeforeUnmount', args);
+}
+
+/**
+ * Run a hook once the component is unmounted and removed from the DOM
+ *
+ * @param component - The Riot component instance (defaults to the current
+ * component in `setup` or `onBeforeMount`)
+ * @param hook - Function called with the component's props and state
+ *
+ * @example
+ * ```ts
+ * useUnmounted(component, () => {
+ *   analytics.track('panel closed')
+ * })
+ * ```
+ */
+export function useUnmounted(
+  component: EnhancedComponent,
+  hook: LifecycleHook,
+): void;
+export function useUnmounted(hook: LifecycleHook): void;
+export function useUnmounted(...args: any[]): void {
+  useHook('unmounted', 'useUnmounted', args);
+}
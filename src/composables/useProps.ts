@@ -0,0 +1,83 @@
+/**
+ * useProps and usePropsWatch composables
+ * React to the props a component receives from its parent
+ */
+
+import type {
+  EnhancedComponent,
+  PropsWatchCallback,
+  PropsWatchOptions,
+  StopHandle,
+} from '../types';
+import { resolveComponentArgs } from '../core/instance';
+import { createReactiveProps, createPropsWatch } from '../core/props';
+
+/**
+ * Get a reactive view of the component's props, updated before each render
+ * Effects, watchers and computed values reading it re-run when the props
+ * they read change
+ *
+ * @param component - The Riot component instance (defaults to the current
+ * component in `setup` or `onBeforeMount`)
+ * @returns Readonly reactive props
+ *
+ * @example
+ * ```ts
+ * const props = useProps<{ firstName: string; lastName: string }>(component)
+ *
+ * const fullName = useComputed(component,
+ *   () => `${props.firstName} ${props.lastName}`
+ * )
+ *
+ * useWatch(component, () => props.firstName, (name) => greet(name))
+ * ```
+ */
+export function useProps<P extends object = Record<string, any>>(
+  component: EnhancedComponent,
+): Readonly<P>;
+export function useProps<P extends object = Record<string, any>>(): Readonly<P>;
+export function useProps(...args: any[]): Readonly<Record<string, any>> {
+  const [component] = resolveComponentArgs('useProps', args);
+  return createReactiveProps(component);
+}
+
+/**
+ * Watch the component's props, with the names of the props that changed
+ *
+ * @param component - The Riot component instance (defaults to the current
+ * component in `setup` or `onBeforeMount`)
+ * @param callback - Called with the changed keys, the new props and the
+ * previous props
+ * @param options - Watch options, plus the `keys` to watch
+ * (defaults to every prop)
+ * @returns Handle stopping, pausing or resuming the watcher
+ *
+ * @example
+ * ```ts
+ * usePropsWatch(component, (changedKeys, props, oldProps) => {
+ *   console.log(`Changed: ${changedKeys.join(', ')}`)
+ * })
+ *
+ * // Only some props
+ * usePropsWatch<{ page: number; sort: string }>(component,
+ *   (changedKeys, { page, sort }) => loadPage(page, sort),
+ *   { keys: ['page', 'sort'] }
+ * )
+ * ```
+ */
+export function usePropsWatch<P extends object = Record<string, any>>(
+  component: EnhancedComponent,
+  callback: PropsWatchCallback<P>,
+  options?: PropsWatchOptions<P>,
+): StopHandle;
+export function usePropsWatch<P extends object = Record<string, any>>(
+  callback: PropsWatchCallback<P>,
+  options?: PropsWatchOptions<P>,
+): StopHandle;
+export function usePropsWatch(...args: any[]): StopHandle {
+  const [component, callback, options] = resolveComponentArgs(
+    'usePropsWatch',
+    args,
+  );
+  return createPropsWatch(component, callback, options);
+}
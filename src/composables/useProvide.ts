@@ -0,0 +1,79 @@
+/**
+ * useProvide and useInject composables
+ * Share values with descendant components without passing props
+ */
+
+import type { EnhancedComponent, InjectionKey } from '../types';
+import { resolveComponentArgs } from '../core/instance';
+import { provide, inject } from '../core/inject';
+
+/**
+ * Provide a value to the descendants of a component
+ * Provide a reactive object or a ref to share state that descendants can
+ * watch and update
+ *
+ * @param component - The Riot component instance (defaults to the current
+ * component in `setup` or `onBeforeMount`)
+ * @param key - Injection key (or string)
+ * @param value - Provided value
+ *
+ * @example
+ * ```ts
+ * // theme.ts
+ * export const ThemeKey: InjectionKey<Ref<'light' | 'dark'>> = Symbol('theme')
+ *
+ * // app.riot
+ * const theme = useRef(component, 'light')
+ * useProvide(component, ThemeKey, theme)
+ * ```
+ */
+export function useProvide<T>(
+  component: EnhancedComponent,
+  key: InjectionKey<T> | string,
+  value: T,
+): void;
+export function useProvide<T>(key: InjectionKey<T> | string, value: T): void;
+export function useProvide(...args: any[]): void {
+  const [component, key, value] = resolveComponentArgs('useProvide', args);
+  provide(component, key, value);
+}
+
+/**
+ * Inject a value provided by an ancestor component, or by
+ * `installComposables({ provide })`
+ * The closest ancestor providing the key wins
+ *
+ * @param component - The Riot component instance (defaults to the current
+ * component in `setup` or `onBeforeMount`)
+ * @param key - Injection key (or string)
+ * @param defaultValue - Value returned when nothing provides the key
+ * @returns The provided value, or the default value
+ *
+ * @example
+ * ```ts
+ * // button.riot
+ * const theme = useInject(component, ThemeKey)
+ * const classes = useComputed(component, () => `button ${theme?.value}`)
+ *
+ * // With a default, the result is not undefined
+ * const size = useInject(component, 'size', 'medium')
+ * ```
+ */
+export function useInject<T>(
+  component: EnhancedComponent,
+  key: InjectionKey<T> | string,
+): T | undefined;
+export function useInject<T>(
+  component: EnhancedComponent,
+  key: InjectionKey<T> | string,
+  defaultValue: T,
+): T;
+export function useInject<T>(key: InjectionKey<T> | string): T | undefined;
+export function useInject<T>(key: InjectionKey<T> | string, defaultValue: T): T;
+export function useInject(...args: any[]): unknown {
+  const [component, key, ...defaultValue] = resolveComponentArgs(
+    'useInject',
+    args,
+  );
+  return inject(component, key, ...(defaultValue as [unknown]));
+}
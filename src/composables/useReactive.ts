@@ -4,11 +4,13 @@
  */
 
 import type { EnhancedComponent } from '../types';
+import { resolveComponentArgs } from '../core/instance';
 
 /**
  * Create a reactive state object that automatically triggers updates
  *
- * @param component - The Riot component instance
+ * @param component - The Riot component instance (defaults to the current
+ * component in `setup` or `onBeforeMount`)
  * @param initialState - Initial state object
  * @returns Reactive state proxy
  *
@@ -37,6 +39,39 @@ import type { EnhancedComponent } from '../types';
 export function useReactive<T extends object>(
   component: EnhancedComponent,
   initialState: T,
-): T {
+): T;
+export function useReactive<T extends object>(initialState: T): T;
+export function useReactive(...args: any[]): any {
+  const [component, initialState] = resolveComponentArgs('useReactive', args);
   return component.$reactive(initialState);
 }
+
+/**
+ * Create a reactive state object where only top-level properties are reactive
+ * Useful for large data blobs that are replaced rather than mutated
+ *
+ * @param component - The Riot component instance (defaults to the current
+ * component in `setup` or `onBeforeMount`)
+ * @param initialState - Initial state object
+ * @returns Shallow reactive state proxy
+ *
+ * @example
+ * ```ts
+ * const store = useShallowReactive(component, { rows: [] as Row[] })
+ *
+ * store.rows.push(row) // No update
+ * store.rows = await fetchRows() // Triggers update
+ * ```
+ */
+export function useShallowReactive<T extends object>(
+  component: EnhancedComponent,
+  initialState: T,
+): T;
+export function useShallowReactive<T extends object>(initialState: T): T;
+export function useShallowReactive(...args: any[]): any {
+  const [component, initialState] = resolveComponentArgs(
+    'useShallowReactive',
+    args,
+  );
+  return component.$shallowReactive(initialState);
+}
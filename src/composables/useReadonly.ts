@@ -0,0 +1,34 @@
+/**
+ * useReadonly composable
+ * Creates a readonly view of state for passing to child components
+ */
+
+import type { EnhancedComponent } from '../types';
+import { resolveComponentArgs } from '../core/instance';
+
+/**
+ * Create a deep readonly view of a state object
+ * The view reflects changes made to the source, but rejects writes
+ *
+ * @param component - The Riot component instance (defaults to the current
+ * component in `setup` or `onBeforeMount`)
+ * @param initialState - Source object (plain or reactive)
+ * @returns Readonly proxy
+ *
+ * @example
+ * ```ts
+ * const reactiveState = useReactive(component, { items: [] })
+ *
+ * // Children can read, but not mutate, the shared state
+ * component.sharedState = useReadonly(component, reactiveState)
+ * ```
+ */
+export function useReadonly<T extends object>(
+  component: EnhancedComponent,
+  initialState: T,
+): Readonly<T>;
+export function useReadonly<T extends object>(initialState: T): Readonly<T>;
+export function useReadonly(...args: any[]): any {
+  const [component, initialState] = resolveComponentArgs('useReadonly', args);
+  return component.$readonly(initialState);
+}
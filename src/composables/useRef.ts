@@ -0,0 +1,45 @@
+/**
+ * useRef composable
+ * Creates a reactive single value for use in Riot components
+ */
+
+import type { EnhancedComponent, Ref } from '../types';
+import { resolveComponentArgs } from '../core/instance';
+
+/**
+ * Create a ref holding a single value that triggers updates when assigned
+ *
+ * @param component - The Riot component instance (defaults to the current
+ * component in `setup` or `onBeforeMount`)
+ * @param initialValue - Initial value
+ * @returns Ref with a reactive `value` property
+ *
+ * @example
+ * ```riot
+ * <my-toggle>
+ *   <button onclick={toggle}>{open.value ? 'Close' : 'Open'}</button>
+ *
+ *   <script>
+ *     import { useRef } from 'riot-composables'
+ *
+ *     export default {
+ *       onBeforeMount() {
+ *         const open = useRef(this, false)
+ *
+ *         this.open = open
+ *         this.toggle = () => (open.value = !open.value)
+ *       }
+ *     }
+ *   </script>
+ * </my-toggle>
+ * ```
+ */
+export function useRef<T>(
+  component: EnhancedComponent,
+  initialValue: T,
+): Ref<T>;
+export function useRef<T>(initialValue: T): Ref<T>;
+export function useRef(...args: any[]): Ref {
+  const [component, initialValue] = resolveComponentArgs('useRef', args);
+  return component.$ref(initialValue);
+}
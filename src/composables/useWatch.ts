@@ -3,14 +3,32 @@
  * Watch values and react to changes
  */
 
-import type { EnhancedComponent, WatchCallback } from '../types';
+import type {
+  EnhancedComponent,
+  EffectFunction,
+  WatchCallback,
+  WatchOptions,
+  WatchSource,
+  WatchSourceValues,
+  StopHandle,
+  DebouncedWatchOptions,
+  ThrottledWatchOptions,
+  TimedStopHandle,
+} from '../types';
+import { createDebouncedWatch, createThrottledWatch } from '../core/watch';
+import { resolveComponentArgs } from '../core/instance';
 
 /**
  * Watch a value and execute callback when it changes
+ * An array of sources is watched with a single callback receiving tuples
  *
- * @param component - The Riot component instance
- * @param getter - Function to get the value to watch
- * @param callback - Callback when value changes
+ * @param component - The Riot component instance (defaults to the current
+ * component in `setup` or `onBeforeMount`)
+ * @param source - Getter or ref to watch, or an array of them
+ * @param callback - Callback when value changes, with an `onCleanup`
+ * third argument registering a teardown for the next call or unmount
+ * @param options - Optional `immediate`, `once`, `deep`, `flush` and `equals` options
+ * @returns Handle stopping, pausing or resuming the watcher
  *
  * @example
  * ```ts
@@ -20,12 +38,204 @@ import type { EnhancedComponent, WatchCallback } from '../types';
  *     console.log(`Changed from ${oldVal} to ${newVal}`)
  *   }
  * )
+ *
+ * // Read the updated DOM in the callback
+ * useWatch(component,
+ *   () => state.editing,
+ *   (editing) => editing && component.$('input').focus(),
+ *   { flush: 'post' }
+ * )
+ *
+ * // Fires once per update, whichever sources changed
+ * useWatch(component,
+ *   [() => state.query, () => state.page],
+ *   ([query, page], [prevQuery], onCleanup) => {
+ *     const controller = new AbortController()
+ *     onCleanup(() => controller.abort())
+ *     search(query, page, controller.signal)
+ *   }
+ * )
+ *
+ * // Only watch while the tab is visible
+ * const handle = useWatch(component, () => state.feed, render)
+ * document.addEventListener('visibilitychange', () => {
+ *   document.hidden ? handle.pause() : handle.resume()
+ * })
  * ```
  */
 export function useWatch<T>(
   component: EnhancedComponent,
-  getter: () => T,
+  source: WatchSource<T>,
+  callback: WatchCallback<T>,
+  options?: WatchOptions,
+): StopHandle;
+export function useWatch<S extends readonly WatchSource[]>(
+  component: EnhancedComponent,
+  sources: [...S],
+  callback: WatchCallback<WatchSourceValues<S>>,
+  options?: WatchOptions,
+): StopHandle;
+export function useWatch<T>(
+  source: WatchSource<T>,
+  callback: WatchCallback<T>,
+  options?: WatchOptions,
+): StopHandle;
+export function useWatch<S extends readonly WatchSource[]>(
+  sources: [...S],
+  callback: WatchCallback<WatchSourceValues<S>>,
+  options?: WatchOptions,
+): StopHandle;
+export function useWatch(...args: any[]): StopHandle {
+  const [component, source, callback, options] = resolveComponentArgs(
+    'useWatch',
+    args,
+  );
+  return component.$watch(source, callback, options);
+}
+
+/**
+ * Watch a value and call the callback once changes stop coming for
+ * `wait` milliseconds
+ * A pending callback is cancelled when the component unmounts
+ *
+ * @param component - The Riot component instance (defaults to the current
+ * component in `setup` or `onBeforeMount`)
+ * @param source - Getter or ref to watch, or an array of them
+ * @param callback - Callback when value changes
+ * @param wait - Quiet time in milliseconds
+ * @param options - Watch options, plus `leading`, `trailing` and `maxWait`
+ * @returns Handle stopping, pausing or resuming the watcher, which can
+ * also `cancel()` or `flush()` a pending callback
+ *
+ * @example
+ * ```ts
+ * const state = useReactive(component, { query: '' })
+ *
+ * // Search when the user stops typing for 300ms
+ * const search = useDebouncedWatch(component,
+ *   () => state.query,
+ *   (query) => loadResults(query),
+ *   300,
+ * )
+ *
+ * // Enter key: search without waiting
+ * search.flush()
+ * ```
+ */
+export function useDebouncedWatch<T>(
+  component: EnhancedComponent,
+  source: WatchSource<T>,
   callback: WatchCallback<T>,
-): void {
-  component.$watch(getter, callback);
+  wait: number,
+  options?: DebouncedWatchOptions,
+): TimedStopHandle;
+export function useDebouncedWatch<S extends readonly WatchSource[]>(
+  component: EnhancedComponent,
+  sources: [...S],
+  callback: WatchCallback<WatchSourceValues<S>>,
+  wait: number,
+  options?: DebouncedWatchOptions,
+): TimedStopHandle;
+export function useDebouncedWatch<T>(
+  source: WatchSource<T>,
+  callback: WatchCallback<T>,
+  wait: number,
+  options?: DebouncedWatchOptions,
+): TimedStopHandle;
+export function useDebouncedWatch<S extends readonly WatchSource[]>(
+  sources: [...S],
+  callback: WatchCallback<WatchSourceValues<S>>,
+  wait: number,
+  options?: DebouncedWatchOptions,
+): TimedStopHandle;
+export function useDebouncedWatch(...args: any[]): TimedStopHandle {
+  const [component, source, callback, wait, options] = resolveComponentArgs(
+    'useDebouncedWatch',
+    args,
+  );
+  return createDebouncedWatch(component, source, callback, wait, options);
+}
+
+/**
+ * Watch a value and call the callback at most once every `wait` milliseconds
+ * A pending callback is cancelled when the component unmounts
+ *
+ * @param component - The Riot component instance (defaults to the current
+ * component in `setup` or `onBeforeMount`)
+ * @param source - Getter or ref to watch, or an array of them
+ * @param callback - Callback when value changes
+ * @param wait - Interval in milliseconds
+ * @param options - Watch options, plus `leading` and `trailing`
+ * @returns Handle stopping, pausing or resuming the watcher, which can
+ * also `cancel()` or `flush()` a pending callback
+ *
+ * @example
+ * ```ts
+ * const form = useReactive(component, { title: '', body: '' })
+ *
+ * // Autosave at most every 2 seconds while editing
+ * useThrottledWatch(component, () => form, save, 2000, { deep: true })
+ * ```
+ */
+export function useThrottledWatch<T>(
+  component: EnhancedComponent,
+  source: WatchSource<T>,
+  callback: WatchCallback<T>,
+  wait: number,
+  options?: ThrottledWatchOptions,
+): TimedStopHandle;
+export function useThrottledWatch<S extends readonly WatchSource[]>(
+  component: EnhancedComponent,
+  sources: [...S],
+  callback: WatchCallback<WatchSourceValues<S>>,
+  wait: number,
+  options?: ThrottledWatchOptions,
+): TimedStopHandle;
+export function useThrottledWatch<T>(
+  source: WatchSource<T>,
+  callback: WatchCallback<T>,
+  wait: number,
+  options?: ThrottledWatchOptions,
+): TimedStopHandle;
+export function useThrottledWatch<S extends readonly WatchSource[]>(
+  sources: [...S],
+  callback: WatchCallback<WatchSourceValues<S>>,
+  wait: number,
+  options?: ThrottledWatchOptions,
+): TimedStopHandle;
+export function useThrottledWatch(...args: any[]): TimedStopHandle {
+  const [component, source, callback, wait, options] = resolveComponentArgs(
+    'useThrottledWatch',
+    args,
+  );
+  return createThrottledWatch(component, source, callback, wait, options);
+}
+
+/**
+ * Run an effect immediately and re-run it whenever the reactive state
+ * it reads changes, with no dependency list to maintain
+ *
+ * @param component - The Riot component instance (defaults to the current
+ * component in `setup` or `onBeforeMount`)
+ * @param effect - Effect function, may return a cleanup function
+ * @returns Handle stopping, pausing or resuming the effect
+ *
+ * @example
+ * ```ts
+ * const state = useReactive(component, { query: '', page: 1 })
+ *
+ * // Re-runs when `query` or `page` changes, aborting the previous request
+ * useWatchEffect(component, (signal) => {
+ *   fetch(`/search?q=${state.query}&page=${state.page}`, { signal })
+ * })
+ * ```
+ */
+export function useWatchEffect(
+  component: EnhancedComponent,
+  effect: EffectFunction,
+): StopHandle;
+export function useWatchEffect(effect: EffectFunction): StopHandle;
+export function useWatchEffect(...args: any[]): StopHandle {
+  const [component, effect] = resolveComponentArgs('useWatchEffect', args);
+  return component.$watchEffect(effect);
 }
@@ -3,26 +3,77 @@
  * Similar to Vue's computed properties
  */
 
-import type { EnhancedComponent, ComputedData } from '../types';
+import type {
+  EnhancedComponent,
+  ComputedData,
+  Ref,
+  WritableComputedOptions,
+  AsyncComputed,
+  AsyncComputedGetter,
+  AsyncComputedOptions,
+} from '../types';
+import { markRef } from './ref';
+import { createShallowReactive } from './reactive';
+import { createWatchEffect } from './watch';
+import { reportError } from './config';
+import {
+  createSubscriber,
+  cleanupSubscriber,
+  runTracked,
+  track,
+  trigger,
+} from './dep';
 
 /**
  * Create a computed value that is cached until dependencies change
  *
+ * Reactive properties (and refs or other computed values) read by the getter
+ * are tracked, and the cache is invalidated only when one of them changes.
+ * Reading `component.props` or `component.state` is tracked too, until Riot
+ * replaces them on the next update.
+ * A getter that reads no reactive state at all is recomputed on every
+ * component update instead
+ *
+ * Passing `{ get, set }` instead of a getter creates a writable computed
+ * value, whose assignments are routed to `set`
+ *
  * @param component - The Riot component instance
- * @param getter - Function to compute the value
- * @returns Object with readonly value property
+ * @param getter - Function to compute the value, or `{ get, set }`
+ * @returns Object with readonly value property (writable with `{ get, set }`)
  *
  * @example
  * ```ts
  * const doubled = createComputed(component, () => state.count * 2)
  * console.log(doubled.value) // Cached result
+ *
+ * const fullName = createComputed(component, {
+ *   get: () => `${state.first} ${state.last}`,
+ *   set: (value) => {
+ *     ;[state.first, state.last] = value.split(' ')
+ *   }
+ * })
+ * fullName.value = 'Ada Lovelace' // Updates state.first and state.last
  * ```
  */
 export function createComputed<T>(
   component: EnhancedComponent,
   getter: () => T,
+): { readonly value: T };
+export function createComputed<T>(
+  component: EnhancedComponent,
+  options: WritableComputedOptions<T>,
+): Ref<T>;
+export function createComputed<T>(
+  component: EnhancedComponent,
+  getterOrOptions: (() => T) | WritableComputedOptions<T>,
 ): { readonly value: T } {
   const computedId = Symbol('computed');
+  const getter =
+    typeof getterOrOptions === 'function'
+      ? getterOrOptions
+      : getterOrOptions.get;
+  const setter =
+    typeof getterOrOptions === 'function' ? undefined : getterOrOptions.set;
 
   const computedData: ComputedData<T> = {
     getter,
@@ -30,28 +81,157 @@ export function createComputed<T>(
     dirty: true,
   };
 
+  // Invalidate when a tracked dependency changes, and pass the change on
+  // to computed values that read this one
+  const subscriber = createSubscriber(() => {
+    if (!computedData.dirty) {
+      computedData.dirty = true;
+      trigger(computedData, 'value');
+    }
+  });
+  computedData.subscriber = subscriber;
+
   // Store computed data
   component.__composables__.computed.set(computedId, computedData);
 
-  // Create computed ref object
-  const computedRef = {
-    get value(): T {
-      if (computedData.dirty) {
-        try {
-          computedData.cache = getter();
-          computedData.dirty = false;
-        } catch (error) {
-          console.error('[riot-composables] Error in computed getter:', error);
-          throw error;
-        }
+  // Stop tracking on unmount
+  component.__composables__.cleanups.push(() => {
+    cleanupSubscriber(subscriber);
+  });
+
+  const read = (): T => {
+    track(computedData, 'value');
+
+    if (computedData.dirty) {
+      try {
+        computedData.cache = runTracked(subscriber, getter);
+        computedData.dirty = false;
+      } catch (error) {
+        reportError(error, component, 'computed getter');
+        throw error;
       }
-      return computedData.cache as T;
-    },
+    }
+    return computedData.cache as T;
+  };
+
+  // Create computed ref object, with a setter only when one is given
+  const computedRef = setter
+    ? {
+        get value(): T {
+          return read();
+        },
+        set value(newValue: T) {
+          try {
+            setter(newValue);
+          } catch (error) {
+            reportError(error, component, 'computed setter');
+            throw error;
+          }
+        },
+      }
+    : {
+        get value(): T {
+          return read();
+        },
+      };
+
+  // Note: Getters without reactive dependencies are marked dirty by the
+  // plugin's onBeforeUpdate hook
+
+  // Computed refs are refs too, so isRef and unref accept them
+  return markRef(computedRef);
+}
+
+/**
+ * Create a computed value from an async getter
+ *
+ * The getter is re-evaluated when the reactive state it reads changes,
+ * like a watch effect: only reads made before its first `await` are
+ * tracked. The signal of an outdated evaluation is aborted, and its
+ * result ignored. Results are not made deeply reactive
+ *
+ * @param component - The Riot component instance
+ * @param getter - Async function computing the value
+ * @param options - Optional `initial` value and `lazy` evaluation
+ * @returns Reactive `value`, `loading` and `error` fields
+ *
+ * @example
+ * ```ts
+ * const price = createAsyncComputed(component, async (signal) => {
+ *   const response = await fetch(`/price/${state.sku}`, { signal })
+ *   return response.json()
+ * }, { initial: 0 })
+ *
+ * price.loading // true until the price is fetched
+ * price.value // 0, then the fetched price
+ * ```
+ */
+export function createAsyncComputed<T>(
+  component: EnhancedComponent,
+  getter: AsyncComputedGetter<T>,
+  options: AsyncComputedOptions<T> & { initial: T },
+): AsyncComputed<T>;
+export function createAsyncComputed<T>(
+  component: EnhancedComponent,
+  getter: AsyncComputedGetter<T>,
+  options?: AsyncComputedOptions<T>,
+): AsyncComputed<T | undefined>;
+export function createAsyncComputed<T>(
+  component: EnhancedComponent,
+  getter: AsyncComputedGetter<T>,
+  options?: AsyncComputedOptions<T>,
+): AsyncComputed<T | undefined> {
+  // Results are stored as is, like errors
+  const state = createShallowReactive(component, {
+    value: options?.initial,
+    loading: false,
+    error: undefined as unknown,
+  });
+
+  const evaluate = async (signal: AbortSignal) => {
+    state.loading = true;
+    state.error = undefined;
+
+    try {
+      const value = await getter(signal);
+      if (!signal.aborted) {
+        state.value = value;
+      }
+    } catch (error) {
+      if (!signal.aborted) {
+        state.error = error;
+      }
+    } finally {
+      if (!signal.aborted) {
+        state.loading = false;
+      }
+    }
   };
 
-  // Note: Marking as dirty is handled by the plugin's onBeforeUpdate hook
+  let started = false;
+  const start = () => {
+    if (!started) {
+      started = true;
+      createWatchEffect(component, evaluate);
+    }
+  };
 
-  return computedRef;
+  if (!options?.lazy) {
+    start();
+  }
+
+  return {
+    get value() {
+      start();
+      return state.value;
+    },
+    get loading() {
+      return state.loading;
+    },
+    get error() {
+      return state.error;
+    },
+  };
 }
 
 /**
@@ -0,0 +1,110 @@
+/**
+ * Global options of Riot.js composables
+ * Routes messages, warnings and caught errors to the configured logger
+ * and error handler
+ */
+
+import type {
+  ComposablesOptions,
+  EnhancedComponent,
+  ErrorPhase,
+} from '../types';
+
+const PREFIX = '[riot-composables]';
+
+/**
+ * Options given to installComposables
+ */
+let options: ComposablesOptions = {};
+
+/**
+ * Replace the global options
+ *
+ * @internal
+ */
+export function setOptions(newOptions: ComposablesOptions = {}): void {
+  options = newOptions;
+}
+
+/**
+ * Values provided to every component
+ *
+ * @internal
+ */
+export function getAppProvides(): ComposablesOptions['provide'] {
+  return options.provide;
+}
+
+/**
+ * Whether development messages and warnings are enabled
+ *
+ * @internal
+ */
+export function isDevMode(): boolean {
+  return options.devMode ?? process.env.NODE_ENV !== 'production';
+}
+
+/**
+ * Log a development message, unless silent
+ *
+ * @internal
+ */
+export function logMessage(message: string): void {
+  if (isDevMode() && !options.silent) {
+    (options.logger ?? console).log(`${PREFIX} ${message}`);
+  }
+}
+
+/**
+ * Log a warning, unless silent
+ *
+ * @internal
+ */
+export function logWarning(message: string): void {
+  if (!options.silent) {
+    (options.logger ?? console).warn(`${PREFIX} ${message}`);
+  }
+}
+
+/**
+ * Log an error that has no exception to go with it
+ *
+ * @internal
+ */
+export function logError(message: string): void {
+  (options.logger ?? console).error(`${PREFIX} ${message}`);
+}
+
+/**
+ * Report an error caught by the composables
+ * Calls the error handler if one is set, or logs the error
+ *
+ * @param error - Caught error
+ * @param component - Component the error belongs to, if known
+ * @param phase - Where the error was thrown
+ *
+ * @internal
+ */
+export function reportError(
+  error: unknown,
+  component: EnhancedComponent | undefined,
+  phase: ErrorPhase,
+): void {
+  if (options.errorHandler) {
+    try {
+      options.errorHandler(error, component, phase);
+      return;
+    } catch (handlerError) {
+      (options.logger ?? console).error(
+        `${PREFIX} Error in error handler:`,
+        handlerError,
+      );
+    }
+  }
+
+  const label =
+    phase === 'update'
+      ? 'Error during component update:'
+      : `Error in ${phase}:`;
+  (options.logger ?? console).error(`${PREFIX} ${label}`, error);
+}
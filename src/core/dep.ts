@@ -0,0 +1,170 @@
+/**
+ * Dependency tracking for Riot.js composables
+ * Records which reactive properties a getter reads (track) and
+ * notifies those readers when the properties change (trigger)
+ */
+
+import type { Dep, Subscriber } from '../types';
+
+/**
+ * Key tracked by operations that depend on the set of keys of a target
+ * (iteration, `Object.keys`, `size`, ...)
+ */
+export const ITERATE_KEY = Symbol('iterate');
+
+/**
+ * Dependencies of every tracked target: target -> key -> subscribers
+ */
+const targetMap = new WeakMap<object, Map<PropertyKey, Dep>>();
+
+/**
+ * Subscriber currently collecting dependencies
+ */
+let activeSubscriber: Subscriber | null = null;
+
+/**
+ * Whether tracking is temporarily paused (see pauseTracking)
+ */
+let shouldTrack = true;
+
+/**
+ * Create a subscriber that calls `notify` when one of its dependencies changes
+ *
+ * @param notify - Called synchronously when a tracked property changes
+ */
+export function createSubscriber(notify: () => void): Subscriber {
+  return { notify, deps: new Set() };
+}
+
+/**
+ * Remove a subscriber from every dependency it was recorded in
+ */
+export function cleanupSubscriber(subscriber: Subscriber): void {
+  subscriber.deps.forEach((dep) => dep.delete(subscriber));
+  subscriber.deps.clear();
+}
+
+/**
+ * Run a function while recording its reactive reads on a subscriber
+ * Dependencies from the previous run are dropped first
+ *
+ * @param subscriber - Subscriber collecting the dependencies
+ * @param fn - Function to run
+ * @returns The result of `fn`
+ */
+export function runTracked<T>(subscriber: Subscriber, fn: () => T): T {
+  cleanupSubscriber(subscriber);
+
+  const previousSubscriber = activeSubscriber;
+  const previousShouldTrack = shouldTrack;
+  activeSubscriber = subscriber;
+  shouldTrack = true;
+
+  try {
+    return fn();
+  } finally {
+    activeSubscriber = previousSubscriber;
+    shouldTrack = previousShouldTrack;
+  }
+}
+
+/**
+ * Stop recording reads until resetTracking is called
+ * Used around array methods that both read and write `length`
+ */
+export function pauseTracking(): boolean {
+  const previous = shouldTrack;
+  shouldTrack = false;
+  return previous;
+}
+
+/**
+ * Restore the tracking state returned by pauseTracking
+ */
+export function resetTracking(previous: boolean): void {
+  shouldTrack = previous;
+}
+
+/**
+ * Record that the active subscriber read a property of a target
+ *
+ * @param target - Raw object (or any object standing in for a value)
+ * @param key - Property read
+ */
+export function track(target: object, key: PropertyKey): void {
+  if (!activeSubscriber || !shouldTrack) {
+    return;
+  }
+
+  let depsMap = targetMap.get(target);
+  if (!depsMap) {
+    depsMap = new Map();
+    targetMap.set(target, depsMap);
+  }
+
+  let dep = depsMap.get(key);
+  if (!dep) {
+    dep = new Set();
+    depsMap.set(key, dep);
+  }
+
+  dep.add(activeSubscriber);
+  activeSubscriber.deps.add(dep);
+}
+
+/**
+ * Notify the subscribers of a changed property
+ *
+ * @param target - Raw object that changed
+ * @param key - Changed property
+ * @param iterate - Whether the set of keys (or iteration result) changed too
+ */
+export function trigger(
+  target: object,
+  key: PropertyKey,
+  iterate = false,
+): void {
+  const depsMap = targetMap.get(target);
+  if (!depsMap) {
+    return;
+  }
+
+  const deps: Array<Dep | undefined> = [depsMap.get(key)];
+  if (iterate) {
+    deps.push(depsMap.get(ITERATE_KEY));
+    if (Array.isArray(target)) {
+      deps.push(depsMap.get('length'));
+    }
+  }
+
+  notifySubscribers(deps);
+}
+
+/**
+ * Notify every subscriber of a target, whatever key they read
+ * Used when a change affects all keys (`clear`, array `length` writes)
+ */
+export function triggerAll(target: object): void {
+  const depsMap = targetMap.get(target);
+  if (depsMap) {
+    notifySubscribers(Array.from(depsMap.values()));
+  }
+}
+
+/**
+ * Notify each subscriber once, from a snapshot so subscribers may
+ * re-track while being notified
+ */
+function notifySubscribers(deps: Array<Dep | undefined>): void {
+  const subscribers = new Set<Subscriber>();
+  deps.forEach((dep) =>
+    dep?.forEach((subscriber) => subscribers.add(subscriber)),
+  );
+
+  subscribers.forEach((subscriber) => {
+    // A subscriber never re-triggers itself while it is running
+    if (subscriber !== activeSubscriber) {
+      subscriber.notify();
+    }
+  });
+}
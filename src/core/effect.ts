@@ -6,9 +6,180 @@
 import type {
   EnhancedComponent,
   EffectFunction,
+  EffectCleanup,
   DepsGetter,
   EffectData,
+  EffectOptions,
+  StopHandle,
+  Subscriber,
 } from '../types';
+import { createSubscriber, cleanupSubscriber, runTracked } from './dep';
+import { queueJob } from './scheduler';
+import { resolveEquals } from './equals';
+import { createStopHandle, removeCleanup } from './handle';
+import { reportError } from './config';
+
+/**
+ * Check if a value is a promise (or any thenable)
+ */
+function isPromise<T = any>(value: unknown): value is Promise<T> {
+  return (
+    value !== null &&
+    typeof value === 'object' &&
+    typeof (value as any).then === 'function'
+  );
+}
+
+/**
+ * Call a cleanup function, reporting errors
+ * Returns a promise if the cleanup is async
+ */
+function callCleanup(
+  effectData: EffectData,
+  cleanup: EffectCleanup,
+): Promise<void> | void {
+  const onError = (error: unknown) =>
+    reportError(error, effectData.component, 'effect cleanup');
+
+  try {
+    const result = cleanup();
+    if (isPromise(result)) {
+      return result.then(undefined, onError);
+    }
+  } catch (error) {
+    onError(error);
+  }
+}
+
+/**
+ * Run the current cleanup of an effect, if any
+ */
+function runCleanup(effectData: EffectData): Promise<void> | void {
+  const cleanup = effectData.cleanup;
+  effectData.cleanup = undefined;
+  if (cleanup) {
+    return callCleanup(effectData, cleanup);
+  }
+}
+
+/**
+ * Call the effect function with the signal of its run and store its cleanup
+ */
+function invokeEffect(
+  effectData: EffectData,
+  controller: AbortController,
+): void {
+  // A newer run or the unmount superseded this run while it was waiting
+  if (controller.signal.aborted) {
+    return;
+  }
+
+  const storeCleanup = (cleanup: unknown) => {
+    if (typeof cleanup !== 'function') {
+      return;
+    }
+
+    // A stale async run is cleaned up as soon as it settles
+    if (controller.signal.aborted) {
+      callCleanup(effectData, cleanup as EffectCleanup);
+    } else {
+      effectData.cleanup = cleanup as EffectCleanup;
+    }
+  };
+
+  try {
+    const result = effectData.effect(controller.signal);
+
+    if (isPromise<void | EffectCleanup>(result)) {
+      result.then(storeCleanup, (error) => {
+        // Errors of cancelled runs (e.g. an aborted fetch) are expected
+        if (!controller.signal.aborted) {
+          reportError(error, effectData.component, 'effect');
+        }
+      });
+    } else {
+      storeCleanup(result);
+    }
+  } catch (error) {
+    reportError(error, effectData.component, 'effect');
+  }
+}
+
+/**
+ * Chain a step after the pending async cleanups of an effect
+ * Runs synchronously when nothing is pending
+ */
+function afterPending(
+  effectData: EffectData,
+  step: () => Promise<void> | void,
+): void {
+  const result = effectData.pending ? effectData.pending.then(step) : step();
+
+  if (isPromise<void>(result)) {
+    const pending: Promise<void> = result.then(() => {
+      if (effectData.pending === pending) {
+        effectData.pending = undefined;
+      }
+    });
+    effectData.pending = pending;
+  } else {
+    effectData.pending = undefined;
+  }
+}
+
+/**
+ * Run an effect, calling the cleanup of its previous run first
+ * The previous run's signal is aborted, and async cleanups are awaited
+ * in order before the effect runs again
+ *
+ * @internal
+ */
+export function runEffect(effectData: EffectData): void {
+  effectData.controller?.abort();
+  const controller = new AbortController();
+  effectData.controller = controller;
+
+  afterPending(effectData, (): Promise<void> | void => {
+    const cleanupResult = runCleanup(effectData);
+    if (cleanupResult) {
+      return cleanupResult.then(() => invokeEffect(effectData, controller));
+    }
+    invokeEffect(effectData, controller);
+  });
+}
+
+/**
+ * Stop an effect: abort its current run and call its cleanup
+ *
+ * @internal
+ */
+export function stopEffect(effectData: EffectData): void {
+  effectData.controller?.abort();
+  afterPending(effectData, () => runCleanup(effectData));
+}
+
+/**
+ * Re-run an effect if its dependencies changed since the last check
+ * Effects without a dependency getter, or paused, are never re-run
+ *
+ * @internal
+ */
+export function checkEffect(effectData: EffectData): void {
+  if (effectData.paused || !effectData.deps || !effectData.depsGetter) {
+    return;
+  }
+
+  const equals = effectData.equals ?? Object.is;
+  const newDeps = effectData.depsGetter();
+  const hasChanged =
+    effectData.deps.length !== newDeps.length ||
+    newDeps.some((dep, i) => !equals(dep, effectData.deps![i]));
+
+  if (hasChanged) {
+    effectData.deps = newDeps;
+    runEffect(effectData);
+  }
+}
 
 /**
  * Create a side effect that runs when dependencies change
@@ -16,6 +187,17 @@ import type {
  * @param component - The Riot component instance
  * @param effect - Effect function to run
  * @param deps - Optional dependency getter function
+ * @param options - Optional `flush` timing of re-runs (defaults to `'pre'`)
+ * and `equals` strategy comparing each dependency (defaults to `Object.is`)
+ *
+ * The first run happens on mount, or on the next flush when the effect
+ * is created after the component mounted
+ *
+ * Each run receives an AbortSignal, aborted when the effect re-runs or
+ * the component unmounts. Async effects resolve to their cleanup, and
+ * async cleanups are awaited before the next run
+ *
+ * @returns Handle stopping, pausing or resuming the effect
  *
  * @example
  * ```ts
@@ -23,62 +205,136 @@ import type {
  *   console.log('Effect running')
  *   return () => console.log('Cleanup')
  * }, () => [state.count])
+ *
+ * // Re-run once the DOM is patched
+ * createEffect(component, () => {
+ *   list.scrollTop = list.scrollHeight
+ * }, () => [state.items.length], { flush: 'post' })
+ *
+ * // A filters prop rebuilt by the parent on every render only
+ * // re-runs the effect when its contents change
+ * createEffect(component, () => {
+ *   loadItems(component.props.filters)
+ * }, () => [component.props.filters], { equals: 'shallow' })
+ *
+ * // Async effect: the previous request is aborted when `query` changes
+ * createEffect(component, async (signal) => {
+ *   const response = await fetch(`/search?q=${state.query}`, { signal })
+ *   state.results = await response.json()
+ * }, () => [state.query])
+ *
+ * // Stop the effect before unmount
+ * const stop = createEffect(component, () => { ... })
+ * stop()
  * ```
  */
 export function createEffect(
   component: EnhancedComponent,
   effect: EffectFunction,
   deps?: DepsGetter,
-): void {
+  options?: EffectOptions,
+): StopHandle {
   const effectId = Symbol('effect');
+  const flush = options?.flush ?? 'pre';
 
   const effectData: EffectData = {
     effect,
-    deps: deps ? deps() : undefined,
     cleanup: undefined,
     depsGetter: deps, // Store the getter for the plugin to use
-  } as any;
-
-  // Function to run the effect
-  const runEffect = () => {
-    // Run cleanup from previous effect if exists
-    if (effectData.cleanup) {
-      try {
-        effectData.cleanup();
-      } catch (error) {
-        console.error('[riot-composables] Error in effect cleanup:', error);
+    flush,
+    equals: resolveEquals(options?.equals),
+    component,
+  };
+
+  // Whether the initial run happened, and whether the effect was stopped
+  let started = false;
+  let active = true;
+
+  // Sync effects subscribe to the reactive state their deps read,
+  // and are checked as soon as it changes
+  let subscriber: Subscriber | undefined;
+  if (flush === 'sync' && deps) {
+    const syncSubscriber = createSubscriber(() => {
+      if (started) {
+        checkEffect(effectData);
       }
+    });
+
+    effectData.depsGetter = () => runTracked(syncSubscriber, deps);
+    subscriber = syncSubscriber;
+  }
+
+  effectData.deps = effectData.depsGetter ? effectData.depsGetter() : undefined;
+
+  // Store effect data
+  component.__composables__.effects.set(effectId, effectData);
+
+  // Run with dependencies that may have changed since creation
+  const start = () => {
+    if (!active) {
+      return;
     }
 
-    // Run the effect and store cleanup
-    try {
-      const cleanup = effect();
-      if (typeof cleanup === 'function') {
-        effectData.cleanup = cleanup;
-      }
-    } catch (error) {
-      console.error('[riot-composables] Error in effect:', error);
+    started = true;
+    if (effectData.depsGetter) {
+      effectData.deps = effectData.depsGetter();
     }
+    runEffect(effectData);
   };
 
-  // Store effect data
-  component.__composables__.effects.set(effectId, effectData);
+  if (component.__composables__.mounted) {
+    // Riot will not call onMounted again, so run on the next flush
+    queueJob(start);
+  } else {
+    // Schedule effect to run on mount
+    const originalOnMounted = component.onMounted;
+    component.onMounted = function (props, state) {
+      start();
+      if (originalOnMounted) {
+        return originalOnMounted.call(this, props, state);
+      }
+    };
+  }
+
+  // Note: 'pre' and 'post' dependency checks are handled by the plugin's
+  // onBeforeUpdate and onUpdated hooks
 
-  // Schedule effect to run on mount
-  const originalOnMounted = component.onMounted;
-  component.onMounted = function (props, state) {
-    runEffect();
-    if (originalOnMounted) {
-      return originalOnMounted.call(this, props, state);
+  const stop = () => {
+    if (!active) {
+      return;
     }
+
+    active = false;
+    component.__composables__.effects.delete(effectId);
+    removeCleanup(component, stop);
+    if (subscriber) {
+      cleanupSubscriber(subscriber);
+    }
+    stopEffect(effectData);
   };
 
-  // Note: Dependency tracking is handled by the plugin's onBeforeUpdate hook
+  // Catch up on dependency changes made while paused
+  const catchUp = () => {
+    if (active) {
+      checkEffect(effectData);
+    }
+  };
 
   // Register cleanup function
-  component.__composables__.cleanups.push(() => {
-    if (effectData.cleanup) {
-      effectData.cleanup();
-    }
-  });
+  component.__composables__.cleanups.push(stop);
+
+  return createStopHandle(
+    stop,
+    () => {
+      effectData.paused = true;
+    },
+    () => {
+      if (active && effectData.paused) {
+        effectData.paused = false;
+        if (started) {
+          queueJob(catchUp);
+        }
+      }
+    },
+  );
 }
@@ -0,0 +1,181 @@
+/**
+ * Equality strategies for effect deps and watched values
+ */
+
+import type { EqualityFn, EqualsOption } from '../types';
+
+/**
+ * Check if a value is a non-null object (arrays included, functions excluded)
+ */
+function isObject(value: unknown): value is object {
+  return value !== null && typeof value === 'object';
+}
+
+/**
+ * Compare the contents of two objects of the same prototype, using
+ * `compare` for nested values
+ */
+function compareContents(
+  a: object,
+  b: object,
+  compare: (x: any, y: any) => boolean,
+): boolean {
+  if (a instanceof Date) {
+    return a.getTime() === (b as Date).getTime();
+  }
+
+  if (a instanceof RegExp) {
+    return String(a) === String(b);
+  }
+
+  if (Array.isArray(a)) {
+    const other = b as any[];
+    return (
+      a.length === other.length &&
+      a.every((value, i) => compare(value, other[i]))
+    );
+  }
+
+  if (a instanceof Map) {
+    const other = b as Map<any, any>;
+    if (a.size !== other.size) {
+      return false;
+    }
+    for (const [key, value] of a) {
+      if (!other.has(key) || !compare(value, other.get(key))) {
+        return false;
+      }
+    }
+    return true;
+  }
+
+  // Set members are matched by identity first, then each remaining member
+  // is paired with an equal unpaired member of the other Set
+  if (a instanceof Set) {
+    const other = b as Set<any>;
+    if (a.size !== other.size) {
+      return false;
+    }
+    const unpaired = new Set(other);
+    const rest: any[] = [];
+    for (const value of a) {
+      if (unpaired.has(value)) {
+        unpaired.delete(value);
+      } else {
+        rest.push(value);
+      }
+    }
+    return rest.every((value) => {
+      for (const candidate of unpaired) {
+        if (compare(value, candidate)) {
+          unpaired.delete(candidate);
+          return true;
+        }
+      }
+      return false;
+    });
+  }
+
+  const keysA = Object.keys(a);
+  const keysB = Object.keys(b);
+  return (
+    keysA.length === keysB.length &&
+    keysA.every(
+      (key) =>
+        Object.prototype.hasOwnProperty.call(b, key) &&
+        compare((a as any)[key], (b as any)[key]),
+    )
+  );
+}
+
+/**
+ * Check if two values are the same or have the same top-level contents
+ * Arrays, plain objects, Maps and Sets compare their entries with `Object.is`
+ * (Set members by identity)
+ *
+ * @example
+ * ```ts
+ * shallowEqual({ page: 1 }, { page: 1 }) // true
+ * shallowEqual({ filter: {} }, { filter: {} }) // false
+ * ```
+ */
+export function shallowEqual(a: unknown, b: unknown): boolean {
+  if (Object.is(a, b)) {
+    return true;
+  }
+
+  if (
+    !isObject(a) ||
+    !isObject(b) ||
+    Object.getPrototypeOf(a) !== Object.getPrototypeOf(b)
+  ) {
+    return false;
+  }
+
+  return compareContents(a, b, Object.is);
+}
+
+/**
+ * Check if two values are structurally equal, at any depth
+ * Set members are paired with equal members of the other Set, and circular
+ * references are supported
+ *
+ * @example
+ * ```ts
+ * deepEqual({ filter: { tags: ['a'] } }, { filter: { tags: ['a'] } }) // true
+ * ```
+ */
+export function deepEqual(a: unknown, b: unknown): boolean {
+  // Pairs already being compared, so cycles compare as equal
+  const seen = new WeakMap<object, Set<object>>();
+
+  const compare = (x: unknown, y: unknown): boolean => {
+    if (Object.is(x, y)) {
+      return true;
+    }
+
+    if (
+      !isObject(x) ||
+      !isObject(y) ||
+      Object.getPrototypeOf(x) !== Object.getPrototypeOf(y)
+    ) {
+      return false;
+    }
+
+    let pairs = seen.get(x);
+    if (pairs?.has(y)) {
+      return true;
+    }
+    if (!pairs) {
+      pairs = new Set();
+      seen.set(x, pairs);
+    }
+    pairs.add(y);
+
+    // A failed pair may be tried again, e.g. while pairing Set members
+    const equal = compareContents(x, y, compare);
+    if (!equal) {
+      pairs.delete(y);
+    }
+    return equal;
+  };
+
+  return compare(a, b);
+}
+
+/**
+ * Resolve an `equals` option to a comparator (`Object.is` by default)
+ *
+ * @internal
+ */
+export function resolveEquals(equals?: EqualsOption): EqualityFn {
+  if (equals === 'shallow') {
+    return shallowEqual;
+  }
+
+  if (equals === 'deep') {
+    return deepEqual;
+  }
+
+  return equals ?? Object.is;
+}
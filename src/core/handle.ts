@@ -0,0 +1,41 @@
+/**
+ * Stop handles returned by effects and watchers
+ */
+
+import type { EnhancedComponent, StopHandle } from '../types';
+
+/**
+ * Create a stop handle: a function stopping the effect or watcher,
+ * which also exposes `stop`, `pause` and `resume`
+ *
+ * @internal
+ */
+export function createStopHandle(
+  stop: () => void,
+  pause: () => void,
+  resume: () => void,
+): StopHandle {
+  const handle = (() => stop()) as StopHandle;
+  handle.stop = stop;
+  handle.pause = pause;
+  handle.resume = resume;
+  return handle;
+}
+
+/**
+ * Remove a function from the cleanups a component runs on unmount
+ * Called when an effect or watcher is stopped early, so components that
+ * keep creating and stopping them do not accumulate cleanups
+ *
+ * @internal
+ */
+export function removeCleanup(
+  component: EnhancedComponent,
+  cleanup: () => void,
+): void {
+  const cleanups = component.__composables__.cleanups;
+  const index = cleanups.indexOf(cleanup);
+  if (index !== -1) {
+    cleanups.splice(index, 1);
+  }
+}
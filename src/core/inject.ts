@@ -0,0 +1,80 @@
+/**
+ * Dependency injection for Riot.js composables
+ * Components provide values that their descendants inject, looked up
+ * through Riot's parent chain and then in the app-level provides
+ */
+
+import { __ } from 'riot';
+import type { EnhancedComponent, InjectionKey } from '../types';
+import { getAppProvides, logWarning } from './config';
+
+/**
+ * Symbol under which Riot stores the scope a component was mounted in
+ */
+const { PARENT_KEY_SYMBOL } = __.globals;
+
+/**
+ * Provide a value to the descendants of a component
+ * Providing the same key again replaces the value
+ *
+ * @param component - The Riot component instance
+ * @param key - Injection key (or string)
+ * @param value - Provided value
+ *
+ * @internal
+ */
+export function provide<T>(
+  component: EnhancedComponent,
+  key: InjectionKey<T> | string,
+  value: T,
+): void {
+  component.__composables__.provides.set(key, value);
+}
+
+/**
+ * Inject a value provided by an ancestor of a component, or at app level
+ * The closest ancestor providing the key wins
+ *
+ * @param component - The Riot component instance
+ * @param key - Injection key (or string)
+ * @param defaultValue - Value returned when nothing provides the key
+ *
+ * @internal
+ */
+export function inject<T>(
+  component: EnhancedComponent,
+  key: InjectionKey<T> | string,
+): T | undefined;
+export function inject<T>(
+  component: EnhancedComponent,
+  key: InjectionKey<T> | string,
+  defaultValue: T,
+): T;
+export function inject(
+  component: EnhancedComponent,
+  key: InjectionKey<any> | string,
+  ...defaultValue: [unknown?]
+): unknown {
+  // Scopes of `each` loops inherit from their component, so the chain may
+  // go through them, and through components without composables support
+  let scope: any = (component as any)[PARENT_KEY_SYMBOL];
+  while (scope) {
+    const provides = scope.__composables__?.provides;
+    if (provides?.has(key)) {
+      return provides.get(key);
+    }
+    scope = scope[PARENT_KEY_SYMBOL];
+  }
+
+  const appProvides = getAppProvides();
+  if (appProvides && key in appProvides) {
+    return appProvides[key];
+  }
+
+  if (defaultValue.length > 0) {
+    return defaultValue[0];
+  }
+
+  logWarning(`Injection "${String(key)}" not found`);
+  return undefined;
+}
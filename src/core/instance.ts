@@ -0,0 +1,120 @@
+/**
+ * Current component tracking for Riot.js composables
+ * Lets composables called during setup or onBeforeMount find their
+ * component without it being passed in
+ */
+
+import type { EnhancedComponent } from '../types';
+
+/**
+ * Component whose setup or onBeforeMount is running
+ */
+let currentComponent: EnhancedComponent | null = null;
+
+/**
+ * Set the current component
+ *
+ * @returns The previous current component, to restore afterwards
+ *
+ * @internal
+ */
+export function setCurrentComponent(
+  component: EnhancedComponent | null,
+): EnhancedComponent | null {
+  const previous = currentComponent;
+  currentComponent = component;
+  return previous;
+}
+
+/**
+ * Run a function with a component as the current component
+ *
+ * @internal
+ */
+export function runWithComponent<T>(
+  component: EnhancedComponent,
+  fn: () => T,
+): T {
+  const previous = setCurrentComponent(component);
+
+  try {
+    return fn();
+  } finally {
+    setCurrentComponent(previous);
+  }
+}
+
+/**
+ * Get the component whose `setup` or `onBeforeMount` is running
+ * Returns null anywhere else, including after an `await` in those hooks
+ *
+ * @example
+ * ```ts
+ * function useLogger(name: string) {
+ *   const component = getCurrentComponent()
+ *   useMount(() => console.log(`${name} mounted in`, component?.root))
+ * }
+ * ```
+ */
+export function getCurrentComponent(): EnhancedComponent | null {
+  return currentComponent;
+}
+
+/**
+ * Check if a value is a component with composables support
+ */
+function isComponent(value: unknown): value is EnhancedComponent {
+  return (
+    value !== null && typeof value === 'object' && '__composables__' in value
+  );
+}
+
+/**
+ * Check if a value is a Riot component, enhanced or not
+ * Riot components have lifecycle methods and the `$` / `$$` DOM helpers
+ */
+function isRiotComponent(value: unknown): boolean {
+  return (
+    value !== null &&
+    typeof value === 'object' &&
+    typeof (value as any).mount === 'function' &&
+    typeof (value as any).update === 'function' &&
+    typeof (value as any).$ === 'function' &&
+    typeof (value as any).$$ === 'function'
+  );
+}
+
+/**
+ * Resolve the arguments of a composable that may be called with or
+ * without its component: a missing component is the current component
+ *
+ * @param name - Composable name, for the error message
+ * @param args - Arguments the composable was called with
+ * @returns The arguments, starting with the component
+ * @throws When the component passed is not enhanced, or when no
+ * component is passed and none is current
+ *
+ * @internal
+ */
+export function resolveComponentArgs(
+  name: string,
+  args: any[],
+): [EnhancedComponent, ...any[]] {
+  if (isComponent(args[0])) {
+    return args as [EnhancedComponent, ...any[]];
+  }
+
+  if (isRiotComponent(args[0])) {
+    throw new Error(
+      `[riot-composables] ${name}() was called with a component that is not enhanced. Call installComposables() or wrap its exports with withComposables()`,
+    );
+  }
+
+  if (!currentComponent) {
+    throw new Error(
+      `[riot-composables] ${name}() was called without a component outside of setup() or onBeforeMount. Pass the component as first argument when calling it elsewhere`,
+    );
+  }
+
+  return [currentComponent, ...args];
+}
@@ -0,0 +1,72 @@
+/**
+ * Lifecycle hooks registered by composables
+ * Lets several composables hook into the same Riot lifecycle phase
+ * without replacing the component's own hooks
+ */
+
+import type {
+  EnhancedComponent,
+  LifecycleHook,
+  LifecycleHookName,
+} from '../types';
+import { logWarning, reportError } from './config';
+
+/**
+ * Register a hook to call in a lifecycle phase of a component
+ * Hooks of the same phase are called in registration order, and dropped
+ * when the component unmounts
+ *
+ * @param component - The Riot component instance
+ * @param name - Lifecycle phase
+ * @param hook - Function called with the component's props and state
+ *
+ * @internal
+ */
+export function registerHook(
+  component: EnhancedComponent,
+  name: LifecycleHookName,
+  hook: LifecycleHook,
+): void {
+  const context = component.__composables__;
+
+  if (name === 'beforeMount' && context.mounted) {
+    logWarning(
+      'A beforeMount hook was registered after the component mounted and will never run',
+    );
+    return;
+  }
+
+  const hooks = context.hooks.get(name);
+  if (hooks) {
+    hooks.push(hook);
+  } else {
+    context.hooks.set(name, [hook]);
+  }
+}
+
+/**
+ * Call the hooks registered for a lifecycle phase of a component
+ * A throwing hook is reported and does not prevent the next ones
+ *
+ * @internal
+ */
+export function callHooks(
+  component: EnhancedComponent,
+  name: LifecycleHookName,
+  props: any,
+  state: any,
+): void {
+  const hooks = component.__composables__.hooks.get(name);
+  if (!hooks) {
+    return;
+  }
+
+  // Hooks registered while calling are called from the next phase on
+  hooks.slice().forEach((hook) => {
+    try {
+      hook.call(component, props, state);
+    } catch (error) {
+      reportError(error, component, 'lifecycle hook');
+    }
+  });
+}
@@ -8,13 +8,51 @@ import type { RiotComponent } from 'riot';
 import type {
   ComposablesPlugin,
   ComposablesContext,
+  ComposablesOptions,
   EnhancedComponent,
   WatchCallback,
+  WatchOptions,
 } from '../types';
-import { createReactive } from './reactive';
-import { createEffect } from './effect';
+import {
+  createReactive,
+  createShallowReactive,
+  createReadonly,
+} from './reactive';
+import { createRef, isRef } from './ref';
+import { createEffect, checkEffect } from './effect';
 import { createComputed } from './computed';
-import { createWatch } from './watch';
+import { createWatch, createWatchEffect, checkWatcher } from './watch';
+import { dequeueUpdate } from './scheduler';
+import { logMessage, logWarning, reportError, setOptions } from './config';
+import { runWithComponent } from './instance';
+import { callHooks } from './lifecycle';
+import { updateReactiveProps } from './props';
+import { track, trigger } from './dep';
+
+/**
+ * Component properties that setup bindings may not replace
+ */
+const RESERVED_KEYS = new Set([
+  'props',
+  'state',
+  'root',
+  'slots',
+  'name',
+  'css',
+  'template',
+  'mount',
+  'update',
+  'unmount',
+  'setup',
+  'shouldUpdate',
+  'onBeforeMount',
+  'onMounted',
+  'onBeforeUpdate',
+  'onUpdated',
+  'onBeforeUnmount',
+  'onUnmounted',
+  '__composables__',
+]);
 
 /**
  * Flag to track if plugin is installed
@@ -26,6 +64,129 @@ let isInstalled = false;
  */
 let pluginRef: ComposablesPlugin | null = null;
 
+/**
+ * Check if a component already has composables support
+ */
+function isEnhanced(component: object): boolean {
+  return Object.prototype.hasOwnProperty.call(component, '__composables__');
+}
+
+/**
+ * Set the bindings returned by setup on the component
+ * Refs are unwrapped: reading or assigning the property reads or assigns
+ * the ref's value
+ */
+function bindSetupResult(component: EnhancedComponent, bindings: object): void {
+  Object.entries(bindings).forEach(([key, value]) => {
+    // `$`, `$$` and the `$reactive`, `$effect`, ... helpers are reserved too
+    if (RESERVED_KEYS.has(key) || key.startsWith('$')) {
+      logWarning(`setup() binding "${key}" is reserved and was ignored`);
+      return;
+    }
+
+    if (isRef(value)) {
+      Object.defineProperty(component, key, {
+        get: () => value.value,
+        set: (newValue) => {
+          value.value = newValue;
+        },
+        enumerable: true,
+        configurable: true,
+      });
+    } else {
+      (component as any)[key] = value;
+    }
+  });
+}
+
+/**
+ * Make reads of `component.props` tracked, so computed values, watchers
+ * and effects reading it are notified when Riot replaces the props
+ * Riot redefines `props` before each update, so this runs again then
+ */
+function trackProps(component: EnhancedComponent): void {
+  const props = component.props;
+  Object.defineProperty(component, 'props', {
+    get() {
+      track(component, 'props');
+      return props;
+    },
+    enumerable: false,
+    configurable: true,
+  });
+}
+
+/**
+ * Make reads of `component.state` tracked, so computed values, watchers
+ * and effects reading it are notified when Riot replaces the state
+ * Riot assigns a new state object on each update, kept by the setter
+ */
+function trackState(component: EnhancedComponent): void {
+  let state = component.state;
+  Object.defineProperty(component, 'state', {
+    get() {
+      track(component, 'state');
+      return state;
+    },
+    set(newState) {
+      state = newState;
+    },
+    enumerable: true,
+    configurable: true,
+  });
+}
+
+/**
+ * Run the setup option of a component, if any, as the current component
+ */
+function runSetup(component: EnhancedComponent, props: any): void {
+  const setup = component.setup;
+  if (typeof setup !== 'function') {
+    return;
+  }
+
+  try {
+    const bindings = runWithComponent(component, () =>
+      setup.call(component, props, {
+        component,
+        root: component.root,
+        slots: component.slots,
+      }),
+    );
+
+    if (bindings && typeof bindings === 'object') {
+      bindSetupResult(component, bindings);
+    }
+  } catch (error) {
+    reportError(error, component, 'setup');
+  }
+}
+
+/**
+ * Check the watchers and effects of a component for changes
+ * `'pre'` checks everything not flushed `'post'`, so `'sync'` watchers and
+ * effects still catch changes their tracking cannot see (such as props)
+ */
+function checkWatchersAndEffects(
+  context: ComposablesContext['__composables__'],
+  phase: 'pre' | 'post',
+): void {
+  const inPhase = (flush = 'pre') =>
+    phase === 'post' ? flush === 'post' : flush !== 'post';
+
+  context.watchers.forEach((watchData) => {
+    if (inPhase(watchData.flush)) {
+      checkWatcher(watchData);
+    }
+  });
+
+  context.effects.forEach((effectData) => {
+    if (inPhase(effectData.flush)) {
+      checkEffect(effectData);
+    }
+  });
+}
+
 /**
  * Main plugin function that enhances each Riot component
  */
@@ -33,6 +194,11 @@ let pluginRef: ComposablesPlugin | null = null;
 const composablesPlugin: ComposablesPlugin = function (
   component: RiotComponent,
 ): RiotComponent {
+  // Components opted in with withComposables may also be enhanced globally
+  if (isEnhanced(component)) {
+    return component;
+  }
+
   // Initialize composables context
   const context: ComposablesContext['__composables__'] = {
     states: new Map(),
@@ -40,6 +206,8 @@ const composablesPlugin: ComposablesPlugin = function (
     computed: new Map(),
     watchers: new Map(),
     cleanups: [],
+    hooks: new Map(),
+    provides: new Map(),
   };
 
   // Attach context to component
@@ -59,92 +227,106 @@ const composablesPlugin: ComposablesPlugin = function (
     return createReactive(this, initialState);
   };
 
+  // Add $shallowReactive helper
+  enhancedComponent.$shallowReactive = function <T extends object>(
+    initialState: T,
+  ): T {
+    return createShallowReactive(this, initialState);
+  };
+
+  // Add $readonly helper
+  enhancedComponent.$readonly = function <T extends object>(
+    initialState: T,
+  ): Readonly<T> {
+    return createReadonly(this, initialState);
+  };
+
+  // Add $ref helper
+  enhancedComponent.$ref = function <T>(initialValue: T) {
+    return createRef(this, initialValue);
+  };
+
   // Add $effect helper
-  enhancedComponent.$effect = function (effect, deps) {
-    createEffect(this, effect, deps);
+  enhancedComponent.$effect = function (effect, deps, options) {
+    return createEffect(this, effect, deps, options);
   };
 
   // Add $computed helper
-  enhancedComponent.$computed = function <T>(getter: () => T) {
-    return createComputed(this, getter);
+  enhancedComponent.$computed = function (getterOrOptions: any) {
+    return createComputed(this, getterOrOptions);
   };
 
   // Add $watch helper
-  enhancedComponent.$watch = function <T>(
-    getter: () => T,
-    callback: WatchCallback<T>,
+  enhancedComponent.$watch = function (
+    source: any,
+    callback: WatchCallback<any>,
+    options?: WatchOptions,
   ) {
-    createWatch(this, getter, callback);
+    return createWatch(this, source, callback, options);
+  };
+
+  // Add $watchEffect helper
+  enhancedComponent.$watchEffect = function (effect) {
+    return createWatchEffect(this, effect);
   };
 
   // Wrap lifecycle hooks for cleanup and update tracking
+  const originalOnBeforeMount = component.onBeforeMount;
+  const originalOnMounted = component.onMounted;
   const originalOnBeforeUpdate = component.onBeforeUpdate;
+  const originalOnUpdated = component.onUpdated;
   const originalOnBeforeUnmount = component.onBeforeUnmount;
   const originalOnUnmounted = component.onUnmounted;
 
+  enhancedComponent.onBeforeMount = function (props, state) {
+    trackProps(enhancedComponent);
+    trackState(enhancedComponent);
+
+    // Bind setup results before onBeforeMount and the first render
+    runSetup(enhancedComponent, props);
+
+    // Call original hook if exists, as the current component
+    if (originalOnBeforeMount) {
+      runWithComponent(enhancedComponent, () =>
+        originalOnBeforeMount.call(this, props, state),
+      );
+    }
+
+    // Hooks registered in setup or onBeforeMount run before the first render
+    callHooks(enhancedComponent, 'beforeMount', props, state);
+  };
+
+  enhancedComponent.onMounted = function (props, state) {
+    // Effects created from now on run on the next flush instead of on mount
+    context.mounted = true;
+
+    // Call original hook if exists
+    if (originalOnMounted) {
+      return originalOnMounted.call(this, props, state);
+    }
+  };
+
   enhancedComponent.onBeforeUpdate = function (props, state) {
-    // Mark all computed values as dirty
-    context.computed.forEach((computedData: any) => {
-      computedData.dirty = true;
-    });
+    // Riot replaced the props: sync their reactive view before anything
+    // depending on them is checked
+    updateReactiveProps(enhancedComponent, props);
+    trackProps(enhancedComponent);
+    trigger(enhancedComponent, 'props');
+    // Riot assigned a new `this.state`, possibly with the same values
+    trigger(enhancedComponent, 'state');
 
-    // Check watchers for changes
-    context.watchers.forEach((watchData: any) => {
-      try {
-        const newValue = watchData.getter();
-        if (!Object.is(newValue, watchData.oldValue)) {
-          const prevValue = watchData.oldValue;
-          watchData.oldValue = newValue;
-
-          try {
-            watchData.callback(newValue, prevValue);
-          } catch (error) {
-            console.error('[riot-composables] Error in watch callback:', error);
-          }
-        }
-      } catch (error) {
-        console.error('[riot-composables] Error in watch getter:', error);
+    // Computed values that read nothing tracked (e.g. only outside
+    // variables) cannot be invalidated by dependency tracking, so they are
+    // marked dirty here
+    context.computed.forEach((computedData) => {
+      if (!computedData.subscriber || computedData.subscriber.deps.size === 0) {
+        computedData.dirty = true;
       }
     });
 
-    // Check effects for dependency changes
-    context.effects.forEach((effectData: any) => {
-      if (effectData.deps && effectData.depsGetter) {
-        const newDeps = effectData.depsGetter();
-        const hasChanged =
-          !effectData.deps ||
-          effectData.deps.length !== newDeps.length ||
-          newDeps.some(
-            (dep: any, i: number) => !Object.is(dep, effectData.deps![i]),
-          );
-
-        if (hasChanged) {
-          effectData.deps = newDeps;
-
-          // Run cleanup from previous effect if exists
-          if (effectData.cleanup) {
-            try {
-              effectData.cleanup();
-            } catch (error) {
-              console.error(
-                '[riot-composables] Error in effect cleanup:',
-                error,
-              );
-            }
-          }
-
-          // Run the effect
-          try {
-            const cleanup = effectData.effect();
-            if (typeof cleanup === 'function') {
-              effectData.cleanup = cleanup;
-            }
-          } catch (error) {
-            console.error('[riot-composables] Error in effect:', error);
-          }
-        }
-      }
-    });
+    // Check 'pre' and 'sync' watchers and effects before the DOM is patched
+    checkWatchersAndEffects(context, 'pre');
+    callHooks(enhancedComponent, 'beforeUpdate', props, state);
 
     // Call original hook if exists
     if (originalOnBeforeUpdate) {
@@ -152,13 +334,28 @@ const composablesPlugin: ComposablesPlugin = function (
     }
   };
 
+  enhancedComponent.onUpdated = function (props, state) {
+    // Check 'post' watchers and effects once the DOM is patched
+    checkWatchersAndEffects(context, 'post');
+    callHooks(enhancedComponent, 'updated', props, state);
+
+    // Call original hook if exists
+    if (originalOnUpdated) {
+      return originalOnUpdated.call(this, props, state);
+    }
+  };
+
   enhancedComponent.onBeforeUnmount = function (props, state) {
-    // Run all registered cleanups
-    context.cleanups.forEach((cleanup) => {
+    // Hooks run while effects and watchers are still active
+    callHooks(enhancedComponent, 'beforeUnmount', props, state);
+
+    // Run all registered cleanups (stopping effects and watchers removes
+    // their cleanup, hence the copy)
+    context.cleanups.slice().forEach((cleanup) => {
       try {
         cleanup();
       } catch (error) {
-        console.error('[riot-composables] Error in cleanup:', error);
+        reportError(error, enhancedComponent, 'cleanup');
       }
     });
 
@@ -169,12 +366,22 @@ const composablesPlugin: ComposablesPlugin = function (
   };
 
   enhancedComponent.onUnmounted = function (props, state) {
+    // Drop any update scheduled before unmounting
+    dequeueUpdate(enhancedComponent);
+
+    context.mounted = false;
+    context.unmounted = true;
+    callHooks(enhancedComponent, 'unmounted', props, state);
+
     // Clear all maps
     context.states.clear();
     context.effects.clear();
     context.computed.clear();
     context.watchers.clear();
     context.cleanups.length = 0;
+    context.hooks.clear();
+    context.provides.clear();
+    context.props = undefined;
 
     // Call original hook if exists
     if (originalOnUnmounted) {
@@ -189,20 +396,32 @@ const composablesPlugin: ComposablesPlugin = function (
 /**
  * Install the composables plugin globally
  * This should be called once at application startup
+ *
+ * @param options - Optional `logger`, global `errorHandler`, `devMode`
+ * override, `silent` flag and app-level `provide` values
+ *
+ * @example
+ * ```ts
+ * installComposables({
+ *   errorHandler: (error, component, phase) => {
+ *     reportToMonitoring(error, { component: component?.name, phase })
+ *   },
+ *   silent: true,
+ * })
+ * ```
  */
-export function installComposables(): void {
+export function installComposables(options?: ComposablesOptions): void {
   if (isInstalled) {
-    console.warn('[riot-composables] Plugin is already installed');
+    logWarning('Plugin is already installed');
     return;
   }
 
+  setOptions(options);
   pluginRef = composablesPlugin;
   install(pluginRef);
   isInstalled = true;
 
-  if (process.env.NODE_ENV !== 'production') {
-    console.log('[riot-composables] Plugin installed successfully');
-  }
+  logMessage('Plugin installed successfully');
 }
 
 /**
@@ -211,7 +430,7 @@ export function installComposables(): void {
  */
 export function uninstallComposables(): void {
   if (!isInstalled || !pluginRef) {
-    console.warn('[riot-composables] Plugin is not installed');
+    logWarning('Plugin is not installed');
     return;
   }
 
@@ -219,9 +438,73 @@ export function uninstallComposables(): void {
   isInstalled = false;
   pluginRef = null;
 
-  if (process.env.NODE_ENV !== 'production') {
-    console.log('[riot-composables] Plugin uninstalled');
+  logMessage('Plugin uninstalled');
+
+  // Later messages use the defaults again
+  setOptions();
+}
+
+/**
+ * Add composables support to the components created from one component
+ * export, without installing the plugin globally
+ * Components are enhanced (and their `setup` run) right before their
+ * own `onBeforeMount`, and never twice when the plugin is also installed
+ *
+ * @param exports - Component export (object or factory function)
+ * @returns Component export with composables support
+ *
+ * @example
+ * ```ts
+ * // counter.riot
+ * export default withComposables({
+ *   onBeforeMount() {
+ *     this.counter = useReactive(this, { count: 0 })
+ *   }
+ * })
+ * ```
+ */
+export function withComposables<T extends object>(exports: T): T {
+  if (typeof exports === 'function') {
+    return ((...args: any[]) =>
+      withComposables((exports as (...args: any[]) => object)(...args))) as T;
   }
+
+  const { onBeforeMount } = exports as Partial<RiotComponent>;
+
+  // Copy the export (accessors included) so the original is left untouched
+  const enhancedExports = Object.defineProperties(
+    Object.create(Object.getPrototypeOf(exports)),
+    Object.getOwnPropertyDescriptors(exports),
+  );
+
+  enhancedExports.onBeforeMount = function (
+    this: RiotComponent,
+    props: any,
+    state: any,
+  ) {
+    // Enhance here unless the component is enhanced globally: it then
+    // already ran its setup, and calls its beforeMount hooks once this
+    // hook returns
+    const enhanceHere = !isEnhanced(this);
+    if (enhanceHere) {
+      composablesPlugin(this);
+      trackProps(this as EnhancedComponent);
+      trackState(this as EnhancedComponent);
+      runSetup(this as EnhancedComponent, props);
+    }
+
+    if (onBeforeMount) {
+      runWithComponent(this as EnhancedComponent, () =>
+        onBeforeMount.call(this, props, state),
+      );
+    }
+
+    if (enhanceHere) {
+      callHooks(this as EnhancedComponent, 'beforeMount', props, state);
+    }
+  };
+
+  return enhancedExports;
 }
 
 /**
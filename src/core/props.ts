@@ -0,0 +1,153 @@
+/**
+ * Reactive props for Riot.js composables
+ * Riot replaces `props` on each parent update, so components get a view
+ * of their props kept in sync before each render, that effects, watchers
+ * and computed values can depend on prop by prop
+ */
+
+import type {
+  EnhancedComponent,
+  PropsWatchCallback,
+  PropsWatchOptions,
+  StopHandle,
+} from '../types';
+import { trigger } from './dep';
+import { createShallowReadonly } from './reactive';
+import { createWatch } from './watch';
+import { resolveEquals } from './equals';
+
+const hasOwn = (target: object, key: string): boolean =>
+  Object.prototype.hasOwnProperty.call(target, key);
+
+/**
+ * Get the reactive view of the props of a component
+ * Every call returns the same readonly object
+ *
+ * @param component - The Riot component instance
+ * @returns Readonly reactive props
+ *
+ * @example
+ * ```ts
+ * const props = createReactiveProps<{ userId: number }>(component)
+ *
+ * createWatchEffect(component, (signal) => {
+ *   fetch(`/users/${props.userId}`, { signal })
+ * })
+ * ```
+ */
+export function createReactiveProps<P extends object = Record<string, any>>(
+  component: EnhancedComponent,
+): Readonly<P> {
+  const context = component.__composables__;
+
+  if (!context.props) {
+    const target = { ...component.props };
+    context.props = {
+      target,
+      proxy: createShallowReadonly(component, target),
+    };
+  }
+
+  return context.props.proxy as Readonly<P>;
+}
+
+/**
+ * Sync the reactive props of a component with its new props, notifying
+ * what depends on the props that changed
+ * The component is being updated already, so no update is queued
+ *
+ * @internal
+ */
+export function updateReactiveProps(
+  component: EnhancedComponent,
+  props: Record<string, any> = {},
+): void {
+  const target = component.__composables__.props?.target;
+  if (!target) {
+    return;
+  }
+
+  Object.keys(props).forEach((key) => {
+    const added = !hasOwn(target, key);
+    if (added || !Object.is(target[key], props[key])) {
+      target[key] = props[key];
+      trigger(target, key, added);
+    }
+  });
+
+  Object.keys(target).forEach((key) => {
+    if (!hasOwn(props, key)) {
+      delete target[key];
+      trigger(target, key, true);
+    }
+  });
+}
+
+/**
+ * Watch the props of a component, with the names of the props that changed
+ *
+ * @param component - The Riot component instance
+ * @param callback - Called with the changed keys, the new props and the
+ * previous props
+ * @param options - Watch options, plus the `keys` to watch
+ * (defaults to every prop)
+ * @returns Handle stopping, pausing or resuming the watcher
+ *
+ * @example
+ * ```ts
+ * createPropsWatch(component, (changedKeys, props) => {
+ *   if (changedKeys.includes('userId')) loadUser(props.userId)
+ * }, { keys: ['userId', 'tab'] })
+ * ```
+ */
+export function createPropsWatch<P extends object = Record<string, any>>(
+  component: EnhancedComponent,
+  callback: PropsWatchCallback<P>,
+  options?: PropsWatchOptions<P>,
+): StopHandle {
+  const props: Record<string, any> = createReactiveProps(component);
+  const keys = options?.keys;
+  const equals = resolveEquals(
+    options?.equals ?? (options?.deep ? 'deep' : undefined),
+  );
+
+  // Names of the props added, removed or changed between two copies
+  const getChangedKeys = (
+    newProps: Record<string, any>,
+    oldProps: Record<string, any> = {},
+  ): string[] =>
+    Array.from(
+      new Set([...Object.keys(newProps), ...Object.keys(oldProps)]),
+    ).filter(
+      (key) =>
+        hasOwn(newProps, key) !== hasOwn(oldProps, key) ||
+        !equals(newProps[key], oldProps[key]),
+    );
+
+  // Copy of the watched props, reading each of them
+  const getWatchedProps = () => {
+    const watched: Record<string, any> = {};
+    ((keys as string[] | undefined) ?? Object.keys(props)).forEach((key) => {
+      if (key in props) {
+        watched[key] = props[key];
+      }
+    });
+    return watched;
+  };
+
+  return createWatch(
+    component,
+    getWatchedProps,
+    (newProps, oldProps, onCleanup) =>
+      callback(
+        getChangedKeys(newProps, oldProps) as Array<keyof P & string>,
+        newProps as Partial<P>,
+        oldProps as Partial<P> | undefined,
+        onCleanup,
+      ),
+    {
+      ...options,
+      equals: (a, b) => getChangedKeys(a, b).length === 0,
+    },
+  );
+}
@@ -1,9 +1,124 @@
 /**
  * Reactive state management for Riot.js composables
- * Uses Proxy to track mutations and trigger component updates
+ * Uses Proxy to track mutations and schedule component updates
  */
 
 import type { EnhancedComponent } from '../types';
+import { queueUpdate } from './scheduler';
+import { isDevMode, logWarning } from './config';
+import {
+  ITERATE_KEY,
+  track,
+  trigger,
+  triggerAll,
+  pauseTracking,
+  resetTracking,
+} from './dep';
+
+/**
+ * Array methods that read and write `length` in the same call
+ * They run with tracking paused, so an effect calling them does not
+ * depend on (and re-trigger itself through) the array length
+ */
+const LENGTH_MUTATION_METHODS = new Set([
+  'push',
+  'pop',
+  'shift',
+  'unshift',
+  'splice',
+]);
+
+/**
+ * Array methods searching items by identity
+ * Items are read through the proxy as proxies, so a search for a raw item
+ * is retried on the raw array
+ */
+const IDENTITY_SEARCH_METHODS = new Set(['includes', 'indexOf', 'lastIndexOf']);
+
+/**
+ * Options distinguishing the reactive proxy variants
+ */
+interface ReactiveFlags {
+  /** Only top-level properties are tracked, nested values are returned as-is */
+  shallow: boolean;
+  /** Writes are rejected (with a warning in development) */
+  readonly: boolean;
+}
+
+/**
+ * Maps every proxy created by createReactive (and its variants) back to its target
+ */
+const proxyToRaw = new WeakMap<object, object>();
+
+/**
+ * Proxies created by createReadonly and createShallowReadonly
+ */
+const readonlyProxies = new WeakSet<object>();
+
+/**
+ * Proxies already created for each component and variant, keyed by target
+ * Keeps proxy identity stable (`state.user === state.user`)
+ */
+const proxyCache = new WeakMap<
+  EnhancedComponent,
+  Map<string, WeakMap<object, any>>
+>();
+
+/**
+ * Objects excluded from reactivity via markRaw
+ */
+const rawObjects = new WeakSet<object>();
+
+/**
+ * Get the proxy cache of a component for one variant, creating it on first use
+ */
+function getProxyCache(
+  component: EnhancedComponent,
+  flags: ReactiveFlags,
+): WeakMap<object, any> {
+  let caches = proxyCache.get(component);
+  if (!caches) {
+    caches = new Map();
+    proxyCache.set(component, caches);
+  }
+
+  const key = `${flags.shallow}:${flags.readonly}`;
+  let cache = caches.get(key);
+  if (!cache) {
+    cache = new WeakMap();
+    caches.set(key, cache);
+  }
+  return cache;
+}
+
+/**
+ * Check whether a property key is an array index
+ */
+function isIntegerKey(key: PropertyKey): boolean {
+  return typeof key === 'string' && key !== '' && String(Number(key)) === key;
+}
+
+/**
+ * Warn about a write to a readonly proxy in development
+ */
+function warnReadonly(operation: string, key?: unknown): void {
+  if (isDevMode()) {
+    const target = key === undefined ? '' : ` on key "${String(key)}"`;
+    logWarning(`${operation} operation${target} failed: target is readonly`);
+  }
+}
+
+/**
+ * Check whether a value is a keyed or set collection
+ */
+function isCollection(value: object): boolean {
+  return (
+    value instanceof Map ||
+    value instanceof Set ||
+    value instanceof WeakMap ||
+    value instanceof WeakSet
+  );
+}
 
 /**
  * Create a reactive state object that automatically triggers component updates
@@ -15,85 +130,429 @@ import type { EnhancedComponent } from '../types';
  * @example
  * ```ts
  * const state = createReactive(component, { count: 0 })
- * state.count++ // Automatically triggers component.update()
+ * state.count++ // Schedules component.update() for the next tick
  * ```
  */
 export function createReactive<T extends object>(
   component: EnhancedComponent,
   initialState: T,
 ): T {
-  const stateId = Symbol('reactive-state');
+  return createReactiveObject(component, initialState, {
+    shallow: false,
+    readonly: false,
+  });
+}
 
-  // Check if state already exists (shouldn't happen in normal usage)
-  if (component.__composables__.states.has(stateId)) {
-    console.warn(
-      '[riot-composables] Reactive state already created for this component',
-    );
-    return component.__composables__.states.get(stateId);
-  }
+/**
+ * Create a reactive state object where only top-level properties are reactive
+ * Nested objects are returned as-is, so mutating them does not trigger updates
+ *
+ * @param component - The Riot component instance
+ * @param initialState - Initial state object
+ * @returns Shallow reactive state
+ *
+ * @example
+ * ```ts
+ * const state = createShallowReactive(component, { data: largeBlob })
+ * state.data.items.push(item) // No update
+ * state.data = nextBlob // Schedules component.update()
+ * ```
+ */
+export function createShallowReactive<T extends object>(
+  component: EnhancedComponent,
+  initialState: T,
+): T {
+  return createReactiveObject(component, initialState, {
+    shallow: true,
+    readonly: false,
+  });
+}
 
-  // Create a deep reactive proxy
-  const createProxy = (target: any, path: string[] = []): any => {
-    return new Proxy(target, {
-      get(obj, prop) {
-        const value = obj[prop];
-
-        // If value is an object, return a proxied version
-        if (
-          value !== null &&
-          typeof value === 'object' &&
-          !Array.isArray(value)
-        ) {
-          return createProxy(value, [...path, String(prop)]);
+/**
+ * Create a deep readonly view of a state object
+ * Reads reflect the source (including changes made through a reactive proxy),
+ * writes are rejected with a warning in development
+ *
+ * @param component - The Riot component instance
+ * @param initialState - Source object (plain or reactive)
+ * @returns Readonly proxy
+ *
+ * @example
+ * ```ts
+ * const state = createReactive(component, { user: { name: 'John' } })
+ * const view = createReadonly(component, state)
+ * view.user.name = 'Jane' // Warns, nothing changes
+ * state.user.name = 'Jane' // view.user.name === 'Jane'
+ * ```
+ */
+export function createReadonly<T extends object>(
+  component: EnhancedComponent,
+  initialState: T,
+): Readonly<T> {
+  return createReactiveObject(component, initialState, {
+    shallow: false,
+    readonly: true,
+  });
+}
+
+/**
+ * Create a readonly view where only top-level properties are protected
+ * Nested objects are returned as-is
+ *
+ * @param component - The Riot component instance
+ * @param initialState - Source object (plain or reactive)
+ * @returns Shallow readonly proxy
+ */
+export function createShallowReadonly<T extends object>(
+  component: EnhancedComponent,
+  initialState: T,
+): Readonly<T> {
+  return createReactiveObject(component, initialState, {
+    shallow: true,
+    readonly: true,
+  });
+}
+
+/**
+ * Make a value assigned to a ref deeply reactive
+ * All the values of a ref share its state entry, so assigning objects
+ * replaces the entry instead of adding one per assignment
+ *
+ * @param component - The Riot component instance
+ * @param value - Value assigned to the ref
+ * @param stateId - State entry of the ref
+ *
+ * @internal
+ */
+export function createRefValue<T>(
+  component: EnhancedComponent,
+  value: T,
+  stateId: symbol,
+): T {
+  component.__composables__.states.delete(stateId);
+
+  return value !== null && typeof value === 'object'
+    ? createReactiveObject(
+        component,
+        value as T & object,
+        { shallow: false, readonly: false },
+        stateId,
+      )
+    : value;
+}
+
+/**
+ * Create a proxy of the given variant, shared by createReactive,
+ * createShallowReactive, createReadonly and createShallowReadonly
+ * The proxy is stored in the component's states under `stateId`
+ */
+function createReactiveObject<T extends object>(
+  component: EnhancedComponent,
+  initialState: T,
+  flags: ReactiveFlags,
+  stateId = Symbol('reactive-state'),
+): T {
+  const cache = getProxyCache(component, flags);
+
+  // Notify tracked dependents and schedule the component update
+  // (mutations are coalesced into one update per tick by the scheduler)
+  const notifyChange = (target: object, key: PropertyKey, iterate = false) => {
+    trigger(target, key, iterate);
+    queueUpdate(component);
+  };
+
+  // Same as notifyChange, for changes affecting every key of the target
+  const notifyAllChanged = (target: object) => {
+    triggerAll(target);
+    queueUpdate(component);
+  };
+
+  // Wrap nested objects in the same variant (shallow proxies leave them as-is)
+  const wrap = (value: any): any =>
+    !flags.shallow &&
+    value !== null &&
+    typeof value === 'object' &&
+    !rawObjects.has(value)
+      ? createProxy(value)
+      : value;
+
+  // Deep proxies store raw values, shallow ones keep whatever they are given
+  const unwrap = (value: any): any => (flags.shallow ? value : toRaw(value));
+
+  // Handlers for plain objects and arrays
+  const baseHandlers: ProxyHandler<any> = {
+    get(obj, prop, receiver) {
+      if (
+        Array.isArray(obj) &&
+        typeof prop === 'string' &&
+        LENGTH_MUTATION_METHODS.has(prop)
+      ) {
+        return (...args: any[]) => {
+          const previous = pauseTracking();
+          try {
+            return (Array.prototype as any)[prop].apply(receiver, args);
+          } finally {
+            resetTracking(previous);
+          }
+        };
+      }
+
+      if (
+        Array.isArray(obj) &&
+        typeof prop === 'string' &&
+        IDENTITY_SEARCH_METHODS.has(prop)
+      ) {
+        return (...args: any[]) => {
+          const method = (Array.prototype as any)[prop];
+          // Searching through the proxy tracks the items and length
+          const result = method.apply(receiver, args);
+          if (result === -1 || result === false) {
+            return method.apply(obj, args.map(toRaw));
+          }
+          return result;
+        };
+      }
+
+      track(obj, prop);
+
+      // If value is an object or array, return a proxied version
+      return wrap(obj[prop]);
+    },
+
+    has(obj, prop) {
+      track(obj, prop);
+      return prop in obj;
+    },
+
+    ownKeys(obj) {
+      track(obj, Array.isArray(obj) ? 'length' : ITERATE_KEY);
+      return Reflect.ownKeys(obj);
+    },
+
+    set(obj, prop, value) {
+      if (flags.readonly) {
+        warnReadonly('Set', prop);
+        return true;
+      }
+
+      const rawValue = unwrap(value);
+      const oldValue = obj[prop];
+
+      // Only update if value actually changed
+      if (oldValue === rawValue) {
+        return true;
+      }
+
+      const isArray = Array.isArray(obj);
+      const hadKey =
+        isArray && isIntegerKey(prop)
+          ? Number(prop) < obj.length
+          : Object.prototype.hasOwnProperty.call(obj, prop);
+
+      obj[prop] = rawValue;
+
+      // Shrinking or growing an array through `length` affects every index
+      if (isArray && prop === 'length') {
+        notifyAllChanged(obj);
+      } else {
+        notifyChange(obj, prop, !hadKey);
+      }
+
+      return true;
+    },
+
+    deleteProperty(obj, prop) {
+      if (flags.readonly) {
+        warnReadonly('Delete', prop);
+        return true;
+      }
+
+      if (prop in obj) {
+        delete obj[prop];
+
+        notifyChange(obj, prop, true);
+      }
+
+      return true;
+    },
+  };
+
+  // Wrap an iterator of a collection so yielded values are reactive
+  const wrapIterator = (
+    iterator: Iterator<any>,
+    isPair: boolean,
+  ): IterableIterator<any> => ({
+    next() {
+      const { value, done } = iterator.next();
+      if (done) {
+        return { value, done };
+      }
+      return {
+        value: isPair ? [wrap(value[0]), wrap(value[1])] : wrap(value),
+        done,
+      };
+    },
+    [Symbol.iterator]() {
+      return this;
+    },
+  });
+
+  // Collection methods are called on the raw target (native methods reject
+  // proxies as receivers), track what they read and notify only when
+  // something changed
+  const createCollectionMethods = (
+    target: any,
+    proxy: any,
+  ): Record<PropertyKey, Function> => {
+    const isMap = target instanceof Map;
+
+    return {
+      get(key: any) {
+        const rawKey = toRaw(key);
+        track(target, rawKey);
+        return wrap(target.get(rawKey));
+      },
+      has(key: any) {
+        const rawKey = toRaw(key);
+        track(target, rawKey);
+        return target.has(rawKey);
+      },
+      forEach(callback: Function, thisArg?: any) {
+        track(target, ITERATE_KEY);
+        target.forEach((value: any, key: any) => {
+          callback.call(thisArg, wrap(value), wrap(key), proxy);
+        });
+      },
+      add(value: any) {
+        if (flags.readonly) {
+          warnReadonly('Add', value);
+          return proxy;
         }
 
-        return value;
+        const rawValue = unwrap(value);
+        if (!target.has(rawValue)) {
+          target.add(rawValue);
+          notifyChange(target, rawValue, true);
+        }
+        return proxy;
       },
+      set(key: any, value: any) {
+        if (flags.readonly) {
+          warnReadonly('Set', key);
+          return proxy;
+        }
 
-      set(obj, prop, value) {
-        const oldValue = obj[prop];
+        const rawKey = toRaw(key);
+        const rawValue = unwrap(value);
+        const hadKey = target.has(rawKey);
+        const oldValue = target.get(rawKey);
 
-        // Only update if value actually changed
-        if (oldValue === value) {
-          return true;
-        }
+        target.set(rawKey, rawValue);
 
-        obj[prop] = value;
+        // Values changed too, so iteration results are notified either way
+        if (!hadKey || oldValue !== rawValue) {
+          notifyChange(target, rawKey, true);
+        }
+        return proxy;
+      },
+      delete(key: any) {
+        if (flags.readonly) {
+          warnReadonly('Delete', key);
+          return false;
+        }
 
-        // Trigger component update
-        try {
-          component.update();
-        } catch (error) {
-          console.error(
-            '[riot-composables] Error during component update:',
-            error,
-          );
+        const rawKey = toRaw(key);
+        const deleted = target.delete(rawKey);
+        if (deleted) {
+          notifyChange(target, rawKey, true);
+        }
+        return deleted;
+      },
+      clear() {
+        if (flags.readonly) {
+          warnReadonly('Clear');
+          return;
         }
 
-        return true;
+        const hadItems = target.size > 0;
+        target.clear();
+        if (hadItems) {
+          notifyAllChanged(target);
+        }
+      },
+      keys() {
+        track(target, ITERATE_KEY);
+        return wrapIterator(target.keys(), false);
+      },
+      values() {
+        track(target, ITERATE_KEY);
+        return wrapIterator(target.values(), false);
       },
+      entries() {
+        track(target, ITERATE_KEY);
+        return wrapIterator(target.entries(), true);
+      },
+      [Symbol.iterator]() {
+        track(target, ITERATE_KEY);
+        return wrapIterator(target[Symbol.iterator](), isMap);
+      },
+    };
+  };
 
-      deleteProperty(obj, prop) {
-        if (prop in obj) {
-          delete obj[prop];
+  // Handlers for Map, Set, WeakMap and WeakSet
+  const createCollectionHandlers = (): ProxyHandler<any> => {
+    let methods: Record<PropertyKey, Function> | undefined;
 
-          // Trigger component update
-          try {
-            component.update();
-          } catch (error) {
-            console.error(
-              '[riot-composables] Error during component update:',
-              error,
-            );
+    return {
+      get(target, prop, receiver) {
+        if (prop === 'size') {
+          track(target, ITERATE_KEY);
+          return target.size;
+        }
+
+        // Only instrument methods the collection actually has
+        // (e.g. WeakMap has no forEach or iterators)
+        if (prop in target && typeof target[prop] === 'function') {
+          methods ??= createCollectionMethods(target, receiver);
+          if (prop in methods) {
+            return methods[prop];
           }
+          return target[prop].bind(target);
         }
 
-        return true;
+        return target[prop];
       },
-    });
+    };
   };
 
-  const proxy = createProxy(initialState);
+  // Create a deep reactive proxy
+  const createProxy = (target: any): any => {
+    const cached = cache.get(target);
+    if (cached) {
+      return cached;
+    }
+
+    const proxy = new Proxy(
+      target,
+      isCollection(target) ? createCollectionHandlers() : baseHandlers,
+    );
+
+    proxyToRaw.set(proxy, target);
+    cache.set(target, proxy);
+    if (flags.readonly) {
+      readonlyProxies.add(proxy);
+    }
+
+    return proxy;
+  };
+
+  // Objects marked raw and readonly proxies are returned as-is
+  if (rawObjects.has(initialState) || readonlyProxies.has(initialState)) {
+    return initialState;
+  }
+
+  // Passing an existing reactive object reuses its target
+  const proxy = createProxy(toRaw(initialState));
 
   // Store in component context
   component.__composables__.states.set(stateId, proxy);
@@ -102,28 +561,67 @@ export function createReactive<T extends object>(
 }
 
 /**
- * Check if an object is reactive
+ * Check if a value is a writable proxy created by createReactive
+ * or createShallowReactive
+ *
+ * @example
+ * ```ts
+ * const state = createReactive(component, { user: { name: 'John' } })
+ * isReactive(state) // true
+ * isReactive(state.user) // true
+ * isReactive(toRaw(state)) // false
+ * ```
  */
 export function isReactive(value: any): boolean {
   return (
-    value !== null && typeof value === 'object' && '__isReactive__' in value
+    value !== null &&
+    typeof value === 'object' &&
+    proxyToRaw.has(value) &&
+    !readonlyProxies.has(value)
+  );
+}
+
+/**
+ * Check if a value is a proxy created by createReadonly
+ * or createShallowReadonly
+ */
+export function isReadonly(value: any): boolean {
+  return (
+    value !== null && typeof value === 'object' && readonlyProxies.has(value)
   );
 }
 
 /**
- * Get the raw (non-proxied) value of a reactive object
- * Useful for comparisons and debugging
+ * Get the original object behind a reactive proxy
+ * Non-reactive values are returned as-is
+ *
+ * Mutating the raw object does not trigger updates.
+ * Useful for comparisons, serialization and debugging
  */
 export function toRaw<T>(reactive: T): T {
-  // Since we're using simple Proxy, we need to create a new object
-  // In a production implementation, we'd track the original reference
-  if (typeof reactive !== 'object' || reactive === null) {
-    return reactive;
+  if (reactive !== null && typeof reactive === 'object') {
+    return (proxyToRaw.get(reactive as object) as T) ?? reactive;
   }
 
-  if (Array.isArray(reactive)) {
-    return reactive.slice() as T;
-  }
+  return reactive;
+}
 
-  return { ...reactive } as T;
+/**
+ * Mark an object so it is never made reactive
+ * The object is stored and returned as-is, without a proxy
+ *
+ * Use it for class instances (Dates, third-party widgets, ...) and large
+ * immutable data that should not be tracked
+ *
+ * @example
+ * ```ts
+ * const state = createReactive(component, {
+ *   chart: markRaw(new Chart(canvas)),
+ * })
+ * state.chart.resize() // Works on the real instance, no update triggered
+ * ```
+ */
+export function markRaw<T extends object>(value: T): T {
+  rawObjects.add(value);
+  return value;
 }
@@ -0,0 +1,177 @@
+/**
+ * Single-value refs for Riot.js composables
+ * Similar to Vue's ref
+ */
+
+import type { EnhancedComponent, Ref, ToRefs } from '../types';
+import { createRefValue, isReactive, toRaw } from './reactive';
+import { queueUpdate } from './scheduler';
+import { track, trigger } from './dep';
+import { isDevMode, logWarning } from './config';
+
+/**
+ * Objects recognized by isRef
+ */
+const refs = new WeakSet<object>();
+
+/**
+ * Register an object as a ref so isRef and unref recognize it
+ * Used by other ref-like values such as computed refs
+ *
+ * @internal
+ */
+export function markRef<T extends object>(ref: T): T {
+  refs.add(ref);
+  return ref;
+}
+
+/**
+ * Create a ref holding a single value
+ * Assigning `.value` schedules a component update, and object values
+ * are made deeply reactive
+ *
+ * @param component - The Riot component instance
+ * @param initialValue - Initial value
+ * @returns Ref with a reactive `value` property
+ *
+ * @example
+ * ```ts
+ * const count = createRef(component, 0)
+ * count.value++ // Schedules component.update()
+ * ```
+ */
+export function createRef<T>(
+  component: EnhancedComponent,
+  initialValue: T,
+): Ref<T> {
+  // Objects are stored behind a reactive proxy so nested mutations update too
+  const stateId = Symbol('ref-value');
+  const toReactiveValue = (value: T): T =>
+    createRefValue(component, value, stateId);
+
+  let rawValue = toRaw(initialValue);
+  let value = toReactiveValue(initialValue);
+
+  const ref = markRef({
+    get value(): T {
+      track(ref, 'value');
+      return value;
+    },
+    set value(newValue: T) {
+      const newRawValue = toRaw(newValue);
+
+      // Only update if value actually changed
+      if (Object.is(newRawValue, rawValue)) {
+        return;
+      }
+
+      rawValue = newRawValue;
+      value = toReactiveValue(newValue);
+
+      trigger(ref, 'value');
+      queueUpdate(component);
+    },
+  });
+
+  return ref;
+}
+
+/**
+ * Check if a value is a ref (including computed refs)
+ */
+export function isRef<T = any>(value: Ref<T> | unknown): value is Ref<T> {
+  return value !== null && typeof value === 'object' && refs.has(value);
+}
+
+/**
+ * Return the inner value of a ref, or the value itself if it is not a ref
+ *
+ * @example
+ * ```ts
+ * unref(createRef(component, 1)) // 1
+ * unref(1) // 1
+ * ```
+ */
+export function unref<T>(value: T | Ref<T>): T {
+  return isRef(value) ? value.value : value;
+}
+
+/**
+ * Create a ref bound to a property of a reactive object
+ * Reading and writing `.value` reads and writes the property,
+ * so updates go through the object's own reactivity
+ *
+ * @param object - Source object (usually reactive)
+ * @param key - Property name
+ * @param defaultValue - Value returned while the property is undefined
+ *
+ * @example
+ * ```ts
+ * const state = createReactive(component, { count: 0 })
+ * const count = toRef(state, 'count')
+ * count.value++ // state.count === 1
+ * ```
+ */
+export function toRef<T extends object, K extends keyof T>(
+  object: T,
+  key: K,
+): Ref<T[K]>;
+export function toRef<T extends object, K extends keyof T>(
+  object: T,
+  key: K,
+  defaultValue: NonNullable<T[K]>,
+): Ref<NonNullable<T[K]>>;
+export function toRef<T extends object, K extends keyof T>(
+  object: T,
+  key: K,
+  defaultValue?: T[K],
+): Ref<T[K]> {
+  const existing = object[key];
+
+  // Properties that already hold a ref are returned directly
+  if (isRef(existing)) {
+    return existing as Ref<T[K]>;
+  }
+
+  return markRef({
+    get value(): T[K] {
+      const value = object[key];
+      return value === undefined ? (defaultValue as T[K]) : value;
+    },
+    set value(newValue: T[K]) {
+      object[key] = newValue;
+    },
+  });
+}
+
+/**
+ * Convert every property of a reactive object into a ref bound to it
+ * Lets composables return destructurable state without losing reactivity
+ *
+ * @param object - Reactive object
+ * @returns Plain object (or array) of refs
+ *
+ * @example
+ * ```ts
+ * function usePosition(component) {
+ *   const state = createReactive(component, { x: 0, y: 0 })
+ *   return toRefs(state)
+ * }
+ *
+ * const { x, y } = usePosition(component)
+ * x.value = 10 // Updates the component
+ * ```
+ */
+export function toRefs<T extends object>(object: T): ToRefs<T> {
+  if (isDevMode() && !isReactive(object)) {
+    logWarning('toRefs() expects a reactive object but received a plain one');
+  }
+
+  const result: any = Array.isArray(object) ? new Array(object.length) : {};
+
+  for (const key in object) {
+    result[key] = toRef(object, key);
+  }
+
+  return result;
+}
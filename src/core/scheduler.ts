@@ -0,0 +1,172 @@
+/**
+ * Update scheduler for Riot.js composables
+ * Coalesces reactive mutations into one component update per tick,
+ * running queued jobs (such as watch effects) before the updates
+ */
+
+import type { EnhancedComponent } from '../types';
+import { logError, reportError } from './config';
+
+/**
+ * Maximum number of times a component or job may be re-queued during
+ * one flush
+ * Guards against updates and watchers that keep mutating their own state
+ */
+const RECURSION_LIMIT = 100;
+
+/**
+ * Components waiting to be updated, in the order they were queued
+ */
+const queue = new Set<EnhancedComponent>();
+
+/**
+ * Jobs to run before the queued components are updated
+ */
+const jobQueue = new Set<() => void>();
+
+/**
+ * Promise of the pending flush, if one is scheduled
+ */
+let flushPromise: Promise<void> | null = null;
+
+/**
+ * Schedule a flush in a microtask unless one is already pending
+ */
+function scheduleFlush(): void {
+  if (!flushPromise) {
+    flushPromise = Promise.resolve().then(flushUpdates);
+  }
+}
+
+/**
+ * Count one more run of a component or job in the current flush
+ * Returns false once it ran more than RECURSION_LIMIT times
+ */
+function countRun<T>(runCounts: Map<T, number>, item: T): boolean {
+  const count = (runCounts.get(item) ?? 0) + 1;
+  runCounts.set(item, count);
+  return count <= RECURSION_LIMIT;
+}
+
+/**
+ * Run every queued job, including jobs queued while running
+ * A throwing job is reported and does not prevent the rest of the flush
+ */
+function flushJobs(runCounts: Map<() => void, number>): void {
+  while (jobQueue.size > 0) {
+    const jobs = Array.from(jobQueue);
+    jobQueue.clear();
+
+    for (const job of jobs) {
+      if (!countRun(runCounts, job)) {
+        logError(
+          'Maximum recursive job runs exceeded. A watcher or effect likely mutates the state it depends on.',
+        );
+        continue;
+      }
+
+      try {
+        job();
+      } catch (error) {
+        reportError(error, undefined, 'scheduler job');
+      }
+    }
+  }
+}
+
+/**
+ * Run queued jobs, then update every queued component
+ * Jobs and components queued while flushing run in the same flush
+ */
+function flushUpdates(): void {
+  const updateCounts = new Map<EnhancedComponent, number>();
+  const jobCounts = new Map<() => void, number>();
+
+  try {
+    while (jobQueue.size > 0 || queue.size > 0) {
+      flushJobs(jobCounts);
+
+      const components = Array.from(queue);
+      queue.clear();
+
+      for (const component of components) {
+        // The component may have unmounted since it was queued
+        if (component.__composables__.unmounted) {
+          continue;
+        }
+
+        if (!countRun(updateCounts, component)) {
+          logError(
+            'Maximum recursive updates exceeded. A reactive state is likely mutated during its own update.',
+          );
+          continue;
+        }
+
+        try {
+          component.update();
+        } catch (error) {
+          reportError(error, component, 'update');
+        }
+      }
+    }
+  } finally {
+    flushPromise = null;
+  }
+}
+
+/**
+ * Queue a component update for the next microtask
+ * A component queued several times in the same tick is updated once,
+ * and an unmounted component is never updated
+ *
+ * @param component - The Riot component instance to update
+ */
+export function queueUpdate(component: EnhancedComponent): void {
+  if (component.__composables__.unmounted) {
+    return;
+  }
+
+  queue.add(component);
+  scheduleFlush();
+}
+
+/**
+ * Queue a job to run in the next flush, before component updates
+ * A job queued several times before the flush runs once
+ *
+ * @param job - Function to run
+ */
+export function queueJob(job: () => void): void {
+  jobQueue.add(job);
+  scheduleFlush();
+}
+
+/**
+ * Remove a component from the update queue
+ * Used when a component unmounts before the queue is flushed
+ *
+ * @param component - The Riot component instance
+ */
+export function dequeueUpdate(component: EnhancedComponent): void {
+  queue.delete(component);
+}
+
+/**
+ * Wait until all queued component updates have been flushed
+ *
+ * @param fn - Optional callback to run after the flush
+ * @returns Promise resolving after the flush (with the callback result)
+ *
+ * @example
+ * ```ts
+ * state.count++
+ * await nextTick()
+ * // The component has been updated
+ * ```
+ */
+export function nextTick(): Promise<void>;
+export function nextTick<T>(fn: () => T): Promise<Awaited<T>>;
+export function nextTick<T>(fn?: () => T): Promise<any> {
+  const promise = flushPromise ?? Promise.resolve();
+  return fn ? promise.then(fn) : promise;
+}
@@ -0,0 +1,170 @@
+/**
+ * Debounce and throttle helpers for Riot.js composables
+ * Used by debounced and throttled watchers
+ */
+
+import type { DebounceOptions, ThrottleOptions, TimedFunction } from '../types';
+
+type Timer = ReturnType<typeof setTimeout>;
+
+/**
+ * Attach `cancel`, `flush` and `pending` to a timed function
+ */
+function createTimedFunction<Args extends any[]>(
+  call: (...args: Args) => void,
+  cancel: () => void,
+  flush: () => void,
+  pending: () => boolean,
+): TimedFunction<Args> {
+  const timed = ((...args: Args) => call(...args)) as TimedFunction<Args>;
+  timed.cancel = cancel;
+  timed.flush = flush;
+  timed.pending = pending;
+  return timed;
+}
+
+/**
+ * Delay calls until they stop coming for `wait` milliseconds
+ * Only the last call of a burst is made, with its arguments
+ *
+ * @param fn - Function to call
+ * @param wait - Quiet time in milliseconds
+ * @param options - `leading` and `trailing` edges, and `maxWait`
+ *
+ * @internal
+ */
+export function debounce<Args extends any[]>(
+  fn: (...args: Args) => void,
+  wait: number,
+  options?: DebounceOptions,
+): TimedFunction<Args> {
+  const leading = options?.leading ?? false;
+  const trailing = options?.trailing ?? true;
+  const maxWait = options?.maxWait;
+
+  let timer: Timer | undefined;
+  let maxTimer: Timer | undefined;
+  let lastArgs: Args | undefined;
+
+  const invokePending = () => {
+    const args = lastArgs;
+    lastArgs = undefined;
+    if (args) {
+      fn(...args);
+    }
+  };
+
+  const cancel = () => {
+    clearTimeout(timer);
+    clearTimeout(maxTimer);
+    timer = undefined;
+    maxTimer = undefined;
+    lastArgs = undefined;
+  };
+
+  // End of the burst
+  const onTimeout = () => {
+    const args = lastArgs;
+    cancel();
+    if (trailing && args) {
+      fn(...args);
+    }
+  };
+
+  // Calls delayed for `maxWait` are made even if the burst goes on
+  const onMaxTimeout = () => {
+    maxTimer = setTimeout(onMaxTimeout, maxWait);
+    invokePending();
+  };
+
+  const call = (...args: Args) => {
+    const idle = timer === undefined;
+    lastArgs = args;
+
+    if (idle) {
+      if (leading) {
+        invokePending();
+      }
+      if (maxWait !== undefined) {
+        maxTimer = setTimeout(onMaxTimeout, maxWait);
+      }
+    }
+
+    clearTimeout(timer);
+    timer = setTimeout(onTimeout, wait);
+  };
+
+  const flush = () => {
+    const args = lastArgs;
+    cancel();
+    if (args) {
+      fn(...args);
+    }
+  };
+
+  return createTimedFunction(call, cancel, flush, () => !!lastArgs);
+}
+
+/**
+ * Make at most one call every `wait` milliseconds
+ * Calls made in between are dropped, except the last one which is made
+ * at the end of the interval
+ *
+ * @param fn - Function to call
+ * @param wait - Interval in milliseconds
+ * @param options - `leading` and `trailing` edges
+ *
+ * @internal
+ */
+export function throttle<Args extends any[]>(
+  fn: (...args: Args) => void,
+  wait: number,
+  options?: ThrottleOptions,
+): TimedFunction<Args> {
+  const leading = options?.leading ?? true;
+  const trailing = options?.trailing ?? true;
+
+  let timer: Timer | undefined;
+  let lastArgs: Args | undefined;
+
+  const cancel = () => {
+    clearTimeout(timer);
+    timer = undefined;
+    lastArgs = undefined;
+  };
+
+  // End of the interval: a trailing call starts a new one
+  const onTimeout = () => {
+    const args = lastArgs;
+    timer = undefined;
+    lastArgs = undefined;
+    if (trailing && args) {
+      timer = setTimeout(onTimeout, wait);
+      fn(...args);
+    }
+  };
+
+  const call = (...args: Args) => {
+    if (timer !== undefined) {
+      lastArgs = args;
+      return;
+    }
+
+    timer = setTimeout(onTimeout, wait);
+    if (leading) {
+      fn(...args);
+    } else {
+      lastArgs = args;
+    }
+  };
+
+  const flush = () => {
+    const args = lastArgs;
+    cancel();
+    if (args) {
+      fn(...args);
+    }
+  };
+
+  return createTimedFunction(call, cancel, flush, () => !!lastArgs);
+}
@@ -3,48 +3,325 @@
  * Similar to Vue's watch
  */
 
-import type { EnhancedComponent, WatchCallback, WatchData } from '../types';
+import type {
+  EnhancedComponent,
+  EffectData,
+  EffectFunction,
+  WatchCallback,
+  WatchData,
+  WatchOptions,
+  WatchSource,
+  WatchSourceValues,
+  StopHandle,
+  OnCleanup,
+  DebouncedWatchOptions,
+  ThrottledWatchOptions,
+  TimedFunction,
+  TimedStopHandle,
+} from '../types';
+import { createSubscriber, cleanupSubscriber, runTracked } from './dep';
+import { queueJob } from './scheduler';
+import { runEffect, stopEffect } from './effect';
+import { resolveEquals } from './equals';
+import { createStopHandle, removeCleanup } from './handle';
+import { isRef } from './ref';
+import { debounce, throttle } from './timing';
+import { reportError } from './config';
+
+/**
+ * Copy a watched value so later mutations do not affect it
+ * Arrays, plain objects, Maps and Sets are copied at every depth (cycles
+ * included), other objects are kept by reference
+ * Values are read through reactive proxies, so sync watchers track them
+ */
+function snapshot<T>(value: T, seen = new Map<object, any>()): T {
+  if (value === null || typeof value !== 'object') {
+    return value;
+  }
+
+  if (seen.has(value)) {
+    return seen.get(value);
+  }
+
+  if (Array.isArray(value)) {
+    const copy: any[] = [];
+    seen.set(value, copy);
+    value.forEach((item) => copy.push(snapshot(item, seen)));
+    return copy as T;
+  }
+
+  if (value instanceof Map) {
+    const copy = new Map();
+    seen.set(value, copy);
+    value.forEach((item, key) => copy.set(key, snapshot(item, seen)));
+    return copy as T;
+  }
+
+  if (value instanceof Set) {
+    const copy = new Set();
+    seen.set(value, copy);
+    value.forEach((item) => copy.add(snapshot(item, seen)));
+    return copy as T;
+  }
+
+  const proto = Object.getPrototypeOf(value);
+  if (proto === Object.prototype || proto === null) {
+    const copy: any = Object.create(proto);
+    seen.set(value, copy);
+    for (const key of Object.keys(value)) {
+      copy[key] = snapshot((value as any)[key], seen);
+    }
+    return copy;
+  }
+
+  return value;
+}
+
+/**
+ * Read a watcher's value, and the value it is compared by
+ * (a snapshot for deep watchers)
+ */
+function readWatcher<T>(watchData: WatchData<T>): [value: T, compared: T] {
+  const read = (): [T, T] => {
+    const value = watchData.getter();
+    return [value, watchData.deep ? snapshot(value) : value];
+  };
+
+  // Sync watchers record what they read, snapshots included
+  return watchData.subscriber ? runTracked(watchData.subscriber, read) : read();
+}
+
+/**
+ * Turn a watch source (getter or ref) into a getter
+ */
+function toGetter<T>(source: WatchSource<T>): () => T {
+  return isRef(source) ? () => source.value : source;
+}
+
+/**
+ * Run the teardown registered by the last watch callback, if any
+ */
+function runWatchCleanup(watchData: WatchData): void {
+  const cleanup = watchData.cleanup;
+  watchData.cleanup = undefined;
+  if (cleanup) {
+    try {
+      cleanup();
+    } catch (error) {
+      reportError(error, watchData.component, 'watch cleanup');
+    }
+  }
+}
+
+/**
+ * Call a watcher's callback, after the teardown of its previous call
+ */
+function callWatcher<T>(
+  watchData: WatchData<T>,
+  newValue: T,
+  oldValue: T,
+): void {
+  runWatchCleanup(watchData);
+
+  try {
+    watchData.callback(newValue, oldValue, (cleanupFn) => {
+      watchData.cleanup = cleanupFn;
+    });
+  } catch (error) {
+    reportError(error, watchData.component, 'watch callback');
+  }
+}
+
+/**
+ * Call a watcher's callback if its value changed since the last check
+ * Paused watchers are not checked
+ *
+ * @internal
+ */
+export function checkWatcher<T>(watchData: WatchData<T>): void {
+  if (watchData.paused) {
+    return;
+  }
+
+  try {
+    const equals = watchData.equals ?? Object.is;
+    const [newValue, compared] = readWatcher(watchData);
+    if (!equals(compared, watchData.oldValue)) {
+      const prevValue = watchData.oldValue as T;
+      watchData.oldValue = compared;
+      callWatcher(watchData, newValue, prevValue);
+    }
+  } catch (error) {
+    reportError(error, watchData.component, 'watch getter');
+  }
+}
 
 /**
  * Watch a value and execute a callback when it changes
+ * Several sources can be watched with a single callback, which then
+ * receives tuples of new and old values
+ *
+ * The callback's third argument registers a teardown, called before the
+ * next callback and when the watcher stops
  *
  * @param component - The Riot component instance
- * @param getter - Function to get the value to watch
+ * @param source - Getter or ref to watch, or an array of them
  * @param callback - Callback to execute when value changes
+ * @param options - Optional watch options:
+ * - `immediate`: call the callback right away (with an undefined old value)
+ * - `once`: stop watching after the first callback
+ * - `deep`: detect nested mutations, passing a snapshot as the old value
+ * - `flush`: timing of the callback (defaults to `'pre'`)
+ * - `equals`: strategy comparing values (defaults to `Object.is`,
+ *   or `'deep'` for deep watchers)
+ * @returns Handle stopping, pausing or resuming the watcher
  *
  * @example
  * ```ts
  * createWatch(component, () => state.count, (newVal, oldVal) => {
  *   console.log(`Count changed from ${oldVal} to ${newVal}`)
  * })
+ *
+ * // Called when any nested item changes
+ * createWatch(component, () => state.items, (items, oldItems) => {
+ *   console.log(`${oldItems.length} -> ${items.length} items`)
+ * }, { deep: true })
+ *
+ * // Several sources, one callback per update
+ * createWatch(component, [() => state.query, page], ([query, page], _, onCleanup) => {
+ *   const controller = new AbortController()
+ *   onCleanup(() => controller.abort())
+ *   search(query, page, controller.signal)
+ * })
+ *
+ * // Stop watching before unmount
+ * const stop = createWatch(component, () => state.step, onStep)
+ * stop()
  * ```
  */
 export function createWatch<T>(
   component: EnhancedComponent,
-  getter: () => T,
+  source: WatchSource<T>,
   callback: WatchCallback<T>,
-): void {
+  options?: WatchOptions,
+): StopHandle;
+export function createWatch<S extends readonly WatchSource[]>(
+  component: EnhancedComponent,
+  sources: [...S],
+  callback: WatchCallback<WatchSourceValues<S>>,
+  options?: WatchOptions,
+): StopHandle;
+export function createWatch(
+  component: EnhancedComponent,
+  source: WatchSource | WatchSource[],
+  callback: WatchCallback,
+  options?: WatchOptions,
+): StopHandle {
   const watchId = Symbol('watch');
+  const flush = options?.flush ?? 'pre';
+  const deep = options?.deep ?? false;
+  const multiple = Array.isArray(source);
 
-  // Get initial value
-  let oldValue: T;
-  try {
-    oldValue = getter();
-  } catch (error) {
-    console.error('[riot-composables] Error in watch getter:', error);
-    return;
+  let getter: () => any;
+  if (multiple) {
+    const getters = source.map(toGetter);
+    getter = () => getters.map((get) => get());
+  } else {
+    getter = toGetter(source);
+  }
+
+  // Multiple sources are compared value by value
+  let equals = resolveEquals(options?.equals ?? (deep ? 'deep' : undefined));
+  if (multiple) {
+    const equalsValue = equals;
+    equals = (a: any[], b: any[]) =>
+      a.length === b.length && a.every((value, i) => equalsValue(value, b[i]));
   }
 
-  const watchData: WatchData<T> = {
+  let active = true;
+
+  const deactivate = () => {
+    if (!active) {
+      return;
+    }
+
+    active = false;
+    component.__composables__.watchers.delete(watchId);
+    if (watchData.subscriber) {
+      cleanupSubscriber(watchData.subscriber);
+    }
+  };
+
+  const stop = () => {
+    deactivate();
+    removeCleanup(component, stop);
+    runWatchCleanup(watchData);
+  };
+
+  // Catch up on changes made while paused
+  const catchUp = () => {
+    if (active) {
+      checkWatcher(watchData);
+    }
+  };
+
+  const handle = createStopHandle(
+    stop,
+    () => {
+      watchData.paused = true;
+    },
+    () => {
+      if (active && watchData.paused) {
+        watchData.paused = false;
+        queueJob(catchUp);
+      }
+    },
+  );
+
+  const watchData: WatchData = {
     getter,
-    callback,
-    oldValue,
+    // Once watchers stop before their first callback runs, and keep
+    // its teardown until unmount (or an explicit stop)
+    callback: options?.once
+      ? (newValue, oldValue, onCleanup) => {
+          deactivate();
+          callback(newValue, oldValue, onCleanup);
+        }
+      : callback,
+    flush,
+    deep,
+    equals,
+    component,
   };
 
+  // Sync watchers subscribe to the reactive state their getter reads,
+  // and are checked as soon as it changes
+  if (flush === 'sync') {
+    watchData.subscriber = createSubscriber(() => checkWatcher(watchData));
+  }
+
+  // Get initial value
+  let initialValue: any;
+  try {
+    [initialValue, watchData.oldValue] = readWatcher(watchData);
+  } catch (error) {
+    reportError(error, component, 'watch getter');
+    stop();
+    return handle;
+  }
+
   // Store watch data
   component.__composables__.watchers.set(watchId, watchData);
+  component.__composables__.cleanups.push(stop);
+
+  if (options?.immediate) {
+    callWatcher(watchData, initialValue, undefined);
+  }
 
-  // Note: Watch checking is handled by the plugin's onBeforeUpdate hook
+  // Note: 'pre' and 'post' checks are handled by the plugin's
+  // onBeforeUpdate and onUpdated hooks
+
+  return handle;
 }
 
 /**
@@ -69,24 +346,272 @@ export function createWatchMultiple(
 
 /**
  * Watch an object with multiple properties
- * Deep watching is not supported by default
+ * Pass `{ deep: true }` to be notified of nested mutations
  *
  * @example
  * ```ts
  * createWatchObject(component, () => state, (newVal, oldVal) => {
  *   console.log('State changed')
- * })
+ * }, { deep: true })
  * ```
  */
 export function createWatchObject<T extends object>(
   component: EnhancedComponent,
   getter: () => T,
   callback: WatchCallback<T>,
-  options?: { deep?: boolean },
-): void {
-  if (options?.deep) {
-    console.warn('[riot-composables] Deep watching is not yet implemented');
-  }
+  options?: WatchOptions,
+): StopHandle {
+  return createWatch(component, getter, callback, options);
+}
+
+/**
+ * Create a watcher whose callback calls go through a debounce or throttle
+ * Pending calls are cancelled when the watcher stops or the component
+ * unmounts
+ */
+function createTimedWatch(
+  component: EnhancedComponent,
+  source: WatchSource | WatchSource[],
+  callback: WatchCallback,
+  options: WatchOptions | undefined,
+  delay: (
+    fn: (newValue: any, oldValue: any, onCleanup: OnCleanup) => void,
+  ) => TimedFunction<[newValue: any, oldValue: any, onCleanup: OnCleanup]>,
+): TimedStopHandle {
+  const timed = delay((newValue, oldValue, onCleanup) => {
+    try {
+      callback(newValue, oldValue, onCleanup);
+    } catch (error) {
+      reportError(error, component, 'watch callback');
+    }
+  });
+
+  // Old value from before the first change of the pending burst
+  let burstOldValue: any;
+
+  const handle = createWatch(
+    component,
+    source as WatchSource,
+    (newValue, oldValue, onCleanup) => {
+      if (!timed.pending()) {
+        burstOldValue = oldValue;
+      }
+      timed(newValue, burstOldValue, onCleanup);
+    },
+    options,
+  );
+
+  const stop = () => {
+    timed.cancel();
+    removeCleanup(component, timed.cancel);
+    handle.stop();
+  };
+
+  component.__composables__.cleanups.push(timed.cancel);
+
+  const timedHandle = createStopHandle(
+    stop,
+    handle.pause,
+    handle.resume,
+  ) as TimedStopHandle;
+  timedHandle.cancel = timed.cancel;
+  timedHandle.flush = timed.flush;
+  timedHandle.pending = timed.pending;
+  return timedHandle;
+}
+
+/**
+ * Watch a value and call the callback once changes stop coming for
+ * `wait` milliseconds
+ * The callback receives the latest value and the value from before
+ * the first change of the burst
+ *
+ * @param component - The Riot component instance
+ * @param source - Getter or ref to watch, or an array of them
+ * @param callback - Callback to execute when value changes
+ * @param wait - Quiet time in milliseconds
+ * @param options - Watch options, plus `leading`, `trailing` and `maxWait`
+ * @returns Handle stopping, pausing or resuming the watcher, which can
+ * also `cancel()` or `flush()` a pending callback
+ *
+ * @example
+ * ```ts
+ * // Search once the user stops typing, at least every second
+ * const search = createDebouncedWatch(component, () => state.query, (query) => {
+ *   loadResults(query)
+ * }, 300, { maxWait: 1000 })
+ *
+ * // Search right away on submit
+ * search.flush()
+ * ```
+ */
+export function createDebouncedWatch<T>(
+  component: EnhancedComponent,
+  source: WatchSource<T>,
+  callback: WatchCallback<T>,
+  wait: number,
+  options?: DebouncedWatchOptions,
+): TimedStopHandle;
+export function createDebouncedWatch<S extends readonly WatchSource[]>(
+  component: EnhancedComponent,
+  sources: [...S],
+  callback: WatchCallback<WatchSourceValues<S>>,
+  wait: number,
+  options?: DebouncedWatchOptions,
+): TimedStopHandle;
+export function createDebouncedWatch(
+  component: EnhancedComponent,
+  source: WatchSource | WatchSource[],
+  callback: WatchCallback,
+  wait: number,
+  options?: DebouncedWatchOptions,
+): TimedStopHandle {
+  return createTimedWatch(component, source, callback, options, (fn) =>
+    debounce(fn, wait, options),
+  );
+}
+
+/**
+ * Watch a value and call the callback at most once every `wait` milliseconds
+ * The callback receives the latest value and the value from before
+ * the first change since the previous call
+ *
+ * @param component - The Riot component instance
+ * @param source - Getter or ref to watch, or an array of them
+ * @param callback - Callback to execute when value changes
+ * @param wait - Interval in milliseconds
+ * @param options - Watch options, plus `leading` and `trailing`
+ * @returns Handle stopping, pausing or resuming the watcher, which can
+ * also `cancel()` or `flush()` a pending callback
+ *
+ * @example
+ * ```ts
+ * // Autosave at most every 2 seconds while the user edits
+ * createThrottledWatch(component, () => state.draft, (draft) => {
+ *   save(draft)
+ * }, 2000, { deep: true })
+ * ```
+ */
+export function createThrottledWatch<T>(
+  component: EnhancedComponent,
+  source: WatchSource<T>,
+  callback: WatchCallback<T>,
+  wait: number,
+  options?: ThrottledWatchOptions,
+): TimedStopHandle;
+export function createThrottledWatch<S extends readonly WatchSource[]>(
+  component: EnhancedComponent,
+  sources: [...S],
+  callback: WatchCallback<WatchSourceValues<S>>,
+  wait: number,
+  options?: ThrottledWatchOptions,
+): TimedStopHandle;
+export function createThrottledWatch(
+  component: EnhancedComponent,
+  source: WatchSource | WatchSource[],
+  callback: WatchCallback,
+  wait: number,
+  options?: ThrottledWatchOptions,
+): TimedStopHandle {
+  return createTimedWatch(component, source, callback, options, (fn) =>
+    throttle(fn, wait, options),
+  );
+}
+
+/**
+ * Run an effect immediately and re-run it whenever the reactive state it
+ * read changes, without an explicit dependency list
+ * Similar to Vue's watchEffect
+ *
+ * Re-runs are scheduled before the next component update, and the cleanup
+ * returned by the previous run is called first. Like createEffect, the
+ * effect receives an AbortSignal and may be async, but only the reads made
+ * before its first `await` are tracked
+ *
+ * @param component - The Riot component instance
+ * @param effect - Effect function, may return a cleanup function
+ * @returns Handle stopping, pausing or resuming the effect
+ *
+ * @example
+ * ```ts
+ * createWatchEffect(component, () => {
+ *   document.title = `${state.count} items`
+ * })
+ * ```
+ */
+export function createWatchEffect(
+  component: EnhancedComponent,
+  effect: EffectFunction,
+): StopHandle {
+  const effectId = Symbol('watch-effect');
+
+  // Only reads made by the effect itself are tracked, not its cleanup
+  const effectData: EffectData = {
+    effect: (signal) => {
+      try {
+        return runTracked(subscriber, () => effect(signal));
+      } catch (error) {
+        reportError(error, component, 'watch effect');
+      }
+    },
+    cleanup: undefined,
+    component,
+  };
+
+  let active = true;
+
+  // Whether a change happened while paused
+  let dirty = false;
+
+  const run = () => {
+    if (!active) {
+      return;
+    }
+
+    if (effectData.paused) {
+      dirty = true;
+      return;
+    }
+
+    runEffect(effectData);
+  };
+
+  const subscriber = createSubscriber(() => queueJob(run));
+
+  // Store effect data
+  component.__composables__.effects.set(effectId, effectData);
+
+  // Stop tracking and run the last cleanup
+  const stop = () => {
+    if (!active) {
+      return;
+    }
+
+    active = false;
+    component.__composables__.effects.delete(effectId);
+    removeCleanup(component, stop);
+    cleanupSubscriber(subscriber);
+    stopEffect(effectData);
+  };
+
+  // Stop on unmount
+  component.__composables__.cleanups.push(stop);
+
+  run();
 
-  createWatch(component, getter, callback);
+  return createStopHandle(
+    stop,
+    () => {
+      effectData.paused = true;
+    },
+    () => {
+      if (active && effectData.paused) {
+        effectData.paused = false;
+        if (dirty) {
+          dirty = false;
+          queueJob(run);
+        }
+      }
+    },
+  );
 }
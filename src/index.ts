@@ -13,6 +13,7 @@ export {
   installComposables,
   uninstallComposables,
   isComposablesInstalled,
+  withComposables,
 } from './core/plugin';
 
 // ============================================================================
@@ -21,29 +22,74 @@ export {
 // These are lower-level functions used internally by composables
 // Most users will use the composables API instead
 
-export { createReactive, isReactive, toRaw } from './core/reactive';
+export {
+  createReactive,
+  createShallowReactive,
+  createReadonly,
+  createShallowReadonly,
+  isReactive,
+  isReadonly,
+  toRaw,
+  markRaw,
+} from './core/reactive';
+
+export { createRef, isRef, unref, toRef, toRefs } from './core/ref';
+
+export { nextTick } from './core/scheduler';
+export { getCurrentComponent } from './core/instance';
+export { shallowEqual, deepEqual } from './core/equals';
 
 export { createEffect } from './core/effect';
 
-export { createComputed, createComputedObject } from './core/computed';
+export {
+  createComputed,
+  createComputedObject,
+  createAsyncComputed,
+} from './core/computed';
 
 export {
   createWatch,
   createWatchMultiple,
   createWatchObject,
+  createWatchEffect,
+  createDebouncedWatch,
+  createThrottledWatch,
 } from './core/watch';
 
+export { createReactiveProps, createPropsWatch } from './core/props';
+
 // ============================================================================
 // Composables (Main API)
 // ============================================================================
 
-export { useReactive } from './composables/useReactive';
+export { useReactive, useShallowReactive } from './composables/useReactive';
+
+export { useReadonly } from './composables/useReadonly';
+
+export { useRef } from './composables/useRef';
 
 export { useEffect, useMount, useUnmount } from './composables/useEffect';
 
-export { useComputed } from './composables/useComputed';
+export {
+  useBeforeMount,
+  useBeforeUpdate,
+  useUpdated,
+  useBeforeUnmount,
+  useUnmounted,
+} from './composables/useLifecycle';
+
+export { useProvide, useInject } from './composables/useProvide';
 
-export { useWatch } from './composables/useWatch';
+export { useProps, usePropsWatch } from './composables/useProps';
+
+export { useComputed, useAsyncComputed } from './composables/useComputed';
+
+export {
+  useWatch,
+  useWatchEffect,
+  useDebouncedWatch,
+  useThrottledWatch,
+} from './composables/useWatch';
 
 // ============================================================================
 // TypeScript Types
@@ -54,20 +100,62 @@ export type {
   EnhancedComponent,
   ComposablesContext,
 
+  // Ref types
+  Ref,
+  ToRefs,
+  MaybeRef,
+
   // Function types
   Composable,
   ComposablesPlugin,
+  ComposablesOptions,
+  SetupContext,
+  SetupFunction,
+  UnwrapRefs,
+  ComposablesLogger,
+  ErrorHandler,
+  ErrorPhase,
 
   // Effect types
   EffectFunction,
   EffectCleanup,
   EffectData,
   DepsGetter,
+  EffectOptions,
+  FlushMode,
+  StopHandle,
+  EqualityFn,
+  EqualsOption,
+
+  // Lifecycle types
+  LifecycleHook,
+  LifecycleHookName,
+
+  // Injection types
+  InjectionKey,
 
   // Computed types
   ComputedData,
+  WritableComputedOptions,
+  AsyncComputed,
+  AsyncComputedGetter,
+  AsyncComputedOptions,
 
   // Watch types
   WatchCallback,
   WatchData,
+  WatchOptions,
+  WatchSource,
+  WatchSourceValues,
+  OnCleanup,
+  DebounceOptions,
+  ThrottleOptions,
+  DebouncedWatchOptions,
+  ThrottledWatchOptions,
+  TimedStopHandle,
+
+  // Props types
+  PropsData,
+  PropsWatchCallback,
+  PropsWatchOptions,
 } from './types';
@@ -4,21 +4,120 @@
 
 import type { RiotComponent as BaseRiotComponent } from 'riot';
 
+/**
+ * Ref holding a single reactive value
+ */
+export interface Ref<T = any> {
+  value: T;
+}
+
+/**
+ * Object whose properties have been converted into refs by toRefs
+ */
+export type ToRefs<T = any> = {
+  [K in keyof T]: Ref<T[K]>;
+};
+
+/**
+ * Value that may or may not be wrapped in a ref
+ */
+export type MaybeRef<T = any> = T | Ref<T>;
+
+/**
+ * Reader of reactive properties, notified when one of them changes
+ */
+export interface Subscriber {
+  notify: () => void;
+  deps: Set<Dep>;
+}
+
+/**
+ * Subscribers depending on one reactive property
+ */
+export type Dep = Set<Subscriber>;
+
 /**
  * Effect cleanup function
+ * A returned promise is awaited before the next run of the effect
  */
-export type EffectCleanup = () => void;
+export type EffectCleanup = () => void | Promise<void>;
 
 /**
  * Effect function that may return a cleanup function
+ * Async effects resolve to their cleanup, and `signal` is aborted when
+ * the effect re-runs or the component unmounts
  */
-export type EffectFunction = () => void | EffectCleanup;
+export type EffectFunction = (
+  signal: AbortSignal,
+) => void | EffectCleanup | Promise<void | EffectCleanup>;
 
 /**
  * Dependency array getter function
  */
 export type DepsGetter = () => any[];
 
+/**
+ * When an effect or watcher re-runs after its dependencies change
+ * - `'pre'`: before the component updates, while the DOM is still stale
+ * - `'post'`: after the component updated, once the DOM is patched
+ * - `'sync'`: synchronously when a reactive dependency changes
+ */
+export type FlushMode = 'pre' | 'post' | 'sync';
+
+/**
+ * Comparator telling whether two values are equal
+ */
+export type EqualityFn = (a: any, b: any) => boolean;
+
+/**
+ * How effect deps and watched values are compared
+ * - `'shallow'`: same top-level contents
+ * - `'deep'`: structurally equal at any depth
+ * - a custom comparator
+ */
+export type EqualsOption = 'shallow' | 'deep' | EqualityFn;
+
+/**
+ * Effect options
+ */
+export interface EffectOptions {
+  /**
+   * Re-run timing (defaults to `'pre'`)
+   */
+  flush?: FlushMode;
+
+  /**
+   * How each dependency is compared with its previous value
+   * (defaults to `Object.is`)
+   */
+  equals?: EqualsOption;
+}
+
+/**
+ * Handle returned by effects and watchers
+ * Calling it is the same as calling `stop()`
+ */
+export interface StopHandle {
+  (): void;
+
+  /**
+   * Stop for good: remove the effect or watcher and run its cleanup
+   * Calling it again does nothing
+   */
+  stop(): void;
+
+  /**
+   * Stop reacting to changes until `resume()` is called
+   */
+  pause(): void;
+
+  /**
+   * React to changes again, catching up on changes made while paused
+   * on the next flush
+   */
+  resume(): void;
+}
+
 /**
  * Effect data stored internally
  */
@@ -26,6 +125,62 @@ export interface EffectData {
   effect: EffectFunction;
   deps?: any[];
   cleanup?: EffectCleanup;
+  depsGetter?: DepsGetter;
+  flush?: FlushMode;
+  controller?: AbortController;
+  pending?: Promise<void>;
+  equals?: EqualityFn;
+  paused?: boolean;
+  component?: EnhancedComponent;
+}
+
+/**
+ * Getter and setter of a writable computed value
+ */
+export interface WritableComputedOptions<T = any> {
+  get: () => T;
+  set: (value: T) => void;
+}
+
+/**
+ * Async getter of an async computed value
+ * `signal` is aborted when the evaluation becomes outdated
+ */
+export type AsyncComputedGetter<T = any> = (signal: AbortSignal) => Promise<T>;
+
+/**
+ * Async computed options
+ */
+export interface AsyncComputedOptions<T = any> {
+  /**
+   * Value until the first evaluation resolves
+   */
+  initial?: T;
+
+  /**
+   * Wait until `value` is first read to evaluate (defaults to `false`)
+   */
+  lazy?: boolean;
+}
+
+/**
+ * Async computed value, with the state of its evaluation
+ */
+export interface AsyncComputed<T = any> {
+  /**
+   * Result of the last evaluation that resolved
+   */
+  readonly value: T;
+
+  /**
+   * Whether an evaluation is running
+   */
+  readonly loading: boolean;
+
+  /**
+   * Error of the last evaluation, if it failed
+   */
+  readonly error: unknown;
 }
 
 /**
@@ -35,12 +190,35 @@ export interface ComputedData<T = any> {
   getter: () => T;
   cache?: T;
   dirty: boolean;
+  subscriber?: Subscriber;
 }
 
+/**
+ * Register a teardown for the current watch callback, called before
+ * the next callback and when the watcher stops
+ */
+export type OnCleanup = (cleanupFn: () => void) => void;
+
 /**
  * Watcher callback
  */
-export type WatchCallback<T = any> = (newValue: T, oldValue: T) => void;
+export type WatchCallback<T = any> = (
+  newValue: T,
+  oldValue: T,
+  onCleanup: OnCleanup,
+) => void;
+
+/**
+ * Value a watcher can observe: a getter or a ref
+ */
+export type WatchSource<T = any> = (() => T) | Ref<T>;
+
+/**
+ * Values of a tuple of watch sources
+ */
+export type WatchSourceValues<S extends readonly WatchSource[]> = {
+  [K in keyof S]: S[K] extends WatchSource<infer V> ? V : never;
+};
 
 /**
  * Watcher data
@@ -49,8 +227,207 @@ export interface WatchData<T = any> {
   getter: () => T;
   callback: WatchCallback<T>;
   oldValue?: T;
+  cleanup?: () => void;
+  flush?: FlushMode;
+  equals?: EqualityFn;
+  deep?: boolean;
+  subscriber?: Subscriber;
+  paused?: boolean;
+  component?: EnhancedComponent;
+}
+
+/**
+ * Watcher options
+ */
+export interface WatchOptions {
+  /**
+   * Call the callback right away, with an undefined old value
+   */
+  immediate?: boolean;
+
+  /**
+   * Stop watching after the first callback
+   */
+  once?: boolean;
+
+  /**
+   * Detect nested mutations of objects, arrays and collections
+   * The old value passed to the callback is a snapshot
+   */
+  deep?: boolean;
+
+  /**
+   * Callback timing (defaults to `'pre'`)
+   */
+  flush?: FlushMode;
+
+  /**
+   * How the new value is compared with the previous one
+   * (defaults to `Object.is`, or `'deep'` for deep watchers)
+   */
+  equals?: EqualsOption;
+}
+
+/**
+ * Debounce options
+ */
+export interface DebounceOptions {
+  /**
+   * Call on the first change of a burst (defaults to `false`)
+   */
+  leading?: boolean;
+
+  /**
+   * Call once the changes stop for `wait` milliseconds (defaults to `true`)
+   */
+  trailing?: boolean;
+
+  /**
+   * Longest time in milliseconds a call may be delayed while changes
+   * keep coming
+   */
+  maxWait?: number;
 }
 
+/**
+ * Throttle options
+ */
+export interface ThrottleOptions {
+  /**
+   * Call on the first change (defaults to `true`)
+   */
+  leading?: boolean;
+
+  /**
+   * Call with the latest change at the end of each interval
+   * (defaults to `true`)
+   */
+  trailing?: boolean;
+}
+
+/**
+ * Options of debounced watchers
+ */
+export interface DebouncedWatchOptions extends WatchOptions, DebounceOptions {}
+
+/**
+ * Options of throttled watchers
+ */
+export interface ThrottledWatchOptions extends WatchOptions, ThrottleOptions {}
+
+/**
+ * Function whose calls are delayed by a debounce or throttle
+ */
+export interface TimedFunction<Args extends any[] = any[]> {
+  (...args: Args): void;
+
+  /**
+   * Drop the pending call, if any
+   */
+  cancel(): void;
+
+  /**
+   * Make the pending call right away, if any
+   */
+  flush(): void;
+
+  /**
+   * Whether a call is waiting
+   */
+  pending(): boolean;
+}
+
+/**
+ * Handle returned by debounced and throttled watchers
+ */
+export interface TimedStopHandle extends StopHandle {
+  /**
+   * Drop the pending callback, if any
+   */
+  cancel(): void;
+
+  /**
+   * Run the pending callback right away, if any
+   */
+  flush(): void;
+
+  /**
+   * Whether a callback is waiting
+   */
+  pending(): boolean;
+}
+
+/**
+ * Reactive view of the props of a component
+ */
+export interface PropsData {
+  /**
+   * Copy of the current props, kept in sync before each update
+   */
+  target: Record<string, any>;
+  /**
+   * Shallow readonly proxy of the copy, returned by useProps
+   */
+  proxy: Readonly<Record<string, any>>;
+}
+
+/**
+ * Callback of a props watcher, receiving the names of the changed props
+ */
+export type PropsWatchCallback<P extends object = Record<string, any>> = (
+  changedKeys: Array<keyof P & string>,
+  newProps: Partial<P>,
+  oldProps: Partial<P> | undefined,
+  onCleanup: OnCleanup,
+) => void;
+
+/**
+ * Options of props watchers
+ */
+export interface PropsWatchOptions<P extends object = Record<string, any>>
+  extends WatchOptions {
+  /**
+   * Props to watch (defaults to every prop)
+   */
+  keys?: Array<keyof P & string>;
+}
+
+/**
+ * Component lifecycle phase a hook composable can be registered for
+ */
+export type LifecycleHookName =
+  | 'beforeMount'
+  | 'beforeUpdate'
+  | 'updated'
+  | 'beforeUnmount'
+  | 'unmounted';
+
+/**
+ * Hook registered by a lifecycle composable, called with the component's
+ * props and state
+ */
+export type LifecycleHook<Props = any, State = any> = (
+  props: Props,
+  state: State,
+) => void;
+
+/**
+ * Key of a value provided to descendant components, typing the value
+ * it injects
+ * A `symbol`, so it can also key the app-level `provide` option
+ *
+ * @example
+ * ```ts
+ * const ThemeKey: InjectionKey<Ref<'light' | 'dark'>> = Symbol('theme')
+ * ```
+ */
+export type InjectionKey<T> = symbol & {
+  /**
+   * Type of the injected value (never set at runtime)
+   */
+  readonly __injectionType?: T;
+};
+
 /**
  * Internal composables context attached to each component
  */
@@ -61,6 +438,27 @@ export interface ComposablesContext {
     computed: Map<symbol, ComputedData>;
     watchers: Map<symbol, WatchData>;
     cleanups: Array<() => void>;
+    /**
+     * Hooks registered by lifecycle composables, in registration order
+     */
+    hooks: Map<LifecycleHookName, LifecycleHook[]>;
+    /**
+     * Values provided to descendant components
+     */
+    provides: Map<InjectionKey<any> | string, unknown>;
+    /**
+     * Reactive view of the props, created by the first useProps call
+     */
+    props?: PropsData;
+    /**
+     * Whether the component is mounted (set by the plugin)
+     */
+    mounted?: boolean;
+    /**
+     * Whether the component was unmounted (set by the plugin), after which
+     * it is never updated again
+     */
+    unmounted?: boolean;
   };
 }
 
@@ -75,22 +473,92 @@ export interface EnhancedComponent
    */
   $reactive<T extends object>(initialState: T): T;
 
+  /**
+   * Create a reactive state object where only top-level properties are reactive
+   */
+  $shallowReactive<T extends object>(initialState: T): T;
+
+  /**
+   * Create a deep readonly view of a state object
+   */
+  $readonly<T extends object>(initialState: T): Readonly<T>;
+
+  /**
+   * Create a ref holding a single value
+   */
+  $ref<T>(initialValue: T): Ref<T>;
+
   /**
    * Register a side effect
    */
-  $effect(effect: EffectFunction, deps?: DepsGetter): void;
+  $effect(
+    effect: EffectFunction,
+    deps?: DepsGetter,
+    options?: EffectOptions,
+  ): StopHandle;
 
   /**
    * Create a computed value
    */
   $computed<T>(getter: () => T): { readonly value: T };
+  $computed<T>(options: WritableComputedOptions<T>): Ref<T>;
 
   /**
    * Watch a value and react to changes
    */
-  $watch<T>(getter: () => T, callback: WatchCallback<T>): void;
+  $watch<T>(
+    source: WatchSource<T>,
+    callback: WatchCallback<T>,
+    options?: WatchOptions,
+  ): StopHandle;
+
+  /**
+   * Watch several values with a single callback
+   */
+  $watch<S extends readonly WatchSource[]>(
+    sources: [...S],
+    callback: WatchCallback<WatchSourceValues<S>>,
+    options?: WatchOptions,
+  ): StopHandle;
+
+  /**
+   * Run an effect and re-run it when the reactive state it reads changes
+   */
+  $watchEffect(effect: EffectFunction): StopHandle;
+
+  /**
+   * Component option run before the first render, whose returned
+   * bindings are set on the component
+   */
+  setup?: SetupFunction;
 }
 
+/**
+ * Context passed to a component's `setup` function
+ */
+export interface SetupContext {
+  component: EnhancedComponent;
+  root: HTMLElement;
+  slots: BaseRiotComponent['slots'];
+}
+
+/**
+ * Component option run before the first render
+ * The returned bindings are set on the component, with refs unwrapped
+ */
+export type SetupFunction<Props = any, Bindings extends object = object> = (
+  props: Props,
+  ctx: SetupContext,
+) => Bindings | void;
+
+/**
+ * Setup bindings as seen from the component: refs (and computed values)
+ * are unwrapped
+ */
+export type UnwrapRefs<T> = {
+  [K in keyof T]: T[K] extends Ref<infer V> ? V : T[K];
+};
+
 /**
  * Composable function type
  */
@@ -105,3 +573,73 @@ export type Composable<Args extends any[] = any[], Return = any> = (
 export type ComposablesPlugin = (
   component: BaseRiotComponent,
 ) => BaseRiotComponent;
+
+/**
+ * Where an error caught by the composables was thrown
+ */
+export type ErrorPhase =
+  | 'effect'
+  | 'effect cleanup'
+  | 'watch getter'
+  | 'watch callback'
+  | 'watch cleanup'
+  | 'watch effect'
+  | 'computed getter'
+  | 'computed setter'
+  | 'cleanup'
+  | 'setup'
+  | 'lifecycle hook'
+  | 'scheduler job'
+  | 'update';
+
+/**
+ * Global handler of the errors caught by the composables
+ * `component` is undefined for errors of a component-less context
+ */
+export type ErrorHandler = (
+  error: unknown,
+  component: EnhancedComponent | undefined,
+  phase: ErrorPhase,
+) => void;
+
+/**
+ * Logger used for messages, warnings and errors
+ */
+export interface ComposablesLogger {
+  log(...args: any[]): void;
+  warn(...args: any[]): void;
+  error(...args: any[]): void;
+}
+
+/**
+ * Options of installComposables
+ */
+export interface ComposablesOptions {
+  /**
+   * Logger replacing `console`
+   */
+  logger?: ComposablesLogger;
+
+  /**
+   * Called with every error caught in effects, watchers, computed values,
+   * cleanups and updates, instead of logging it
+   */
+  errorHandler?: ErrorHandler;
+
+  /**
+   * Enable development messages and warnings
+   * (defaults to `process.env.NODE_ENV !== 'production'`)
+   */
+  devMode?: boolean;
+
+  /**
+   * Disable messages and warnings. Errors are still reported
+   */
+  silent?: boolean;
+
+  /**
+   * Values provided to every component, injected when no ancestor
+   * provides the same key
+   */
+  provide?: Record<string | symbol, unknown>;
+}
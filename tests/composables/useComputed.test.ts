@@ -1,7 +1,14 @@
 import { describe, it, expect, vi, beforeEach } from 'vitest';
-import { useComputed } from '../../src/composables/useComputed';
+import {
+  useComputed,
+  useAsyncComputed,
+} from '../../src/composables/useComputed';
 import { installComposables } from '../../src/core/plugin';
-import { createComputed } from '../../src/core/computed';
+import {
+  createComputed,
+  createAsyncComputed,
+} from '../../src/core/computed';
+import { runWithComponent } from '../../src/core/instance';
 import type { EnhancedComponent } from '../../src/types';
 
 // Mock createComputed
@@ -20,6 +27,7 @@ vi.mock('../../src/core/computed', () => ({
       },
     };
   }),
+  createAsyncComputed: vi.fn(),
 }));
 
 // Helper to create a mock component
@@ -39,7 +47,7 @@ function createMockComponent(): EnhancedComponent {
   installComposables();
 
   // Add $computed method (normally added by plugin)
-  component.$computed = function <T>(getter: () => T): { readonly value: T } {
+  component.$computed = function (getter: any): { readonly value: any } {
     return createComputed(this, getter);
   };
 
@@ -70,6 +78,16 @@ describe('composables/useComputed', () => {
     expect(createComputed).toHaveBeenCalledWith(component, getter);
   });
 
+  it('should pass get/set options to $computed', () => {
+    const component = createMockComponent();
+    const spy = vi.spyOn(component, '$computed');
+    const options = { get: () => 10, set: vi.fn() };
+
+    useComputed(component, options);
+
+    expect(spy).toHaveBeenCalledWith(options);
+  });
+
   it('should return computed value object', () => {
     const component = createMockComponent();
     const getter = () => 42;
@@ -213,4 +231,33 @@ describe('composables/useComputed', () => {
 
     expect(quadrupled.value).toBe(20);
   });
+
+  describe('useAsyncComputed', () => {
+    it('should call createAsyncComputed with the getter and options', () => {
+      const component = createMockComponent();
+      const getter = async () => 1;
+      const options = { initial: 0, lazy: true };
+
+      useAsyncComputed(component, getter, options);
+
+      expect(createAsyncComputed).toHaveBeenCalledWith(
+        component,
+        getter,
+        options,
+      );
+    });
+
+    it('should use the current component when omitted', () => {
+      const component = createMockComponent();
+      const getter = async () => 1;
+
+      runWithComponent(component, () => useAsyncComputed(getter));
+
+      expect(createAsyncComputed).toHaveBeenCalledWith(
+        component,
+        getter,
+        undefined,
+      );
+    });
+  });
 });
@@ -6,6 +6,7 @@ import {
 } from '../../src/composables/useEffect';
 import { installComposables } from '../../src/core/plugin';
 import { createEffect } from '../../src/core/effect';
+import { runWithComponent } from '../../src/core/instance';
 import type {
   EnhancedComponent,
   EffectFunction,
@@ -57,7 +58,7 @@ describe('composables/useEffect', () => {
 
       useEffect(component, effect);
 
-      expect(spy).toHaveBeenCalledWith(effect, undefined);
+      expect(spy).toHaveBeenCalledWith(effect, undefined, undefined);
     });
 
     it('should pass dependencies to $effect', () => {
@@ -68,7 +69,26 @@ describe('composables/useEffect', () => {
 
       useEffect(component, effect, deps);
 
-      expect(spy).toHaveBeenCalledWith(effect, deps);
+      expect(spy).toHaveBeenCalledWith(effect, deps, undefined);
+    });
+
+    it('should pass options to $effect', () => {
+      const component = createMockComponent();
+      const spy = vi.spyOn(component, '$effect');
+      const effect = vi.fn();
+      const deps = () => [1];
+
+      useEffect(component, effect, deps, { flush: 'post' });
+
+      expect(spy).toHaveBeenCalledWith(effect, deps, { flush: 'post' });
+    });
+
+    it('should return the stop handle of $effect', () => {
+      const component = createMockComponent();
+      const handle = vi.fn();
+      vi.spyOn(component, '$effect').mockReturnValue(handle as any);
+
+      expect(useEffect(component, vi.fn())).toBe(handle);
     });
 
     it('should call createEffect internally', () => {
@@ -119,6 +139,23 @@ describe('composables/useEffect', () => {
 
       expect(createEffect).toHaveBeenCalledWith(component, effect, undefined);
     });
+
+    it('should use the current component when omitted', () => {
+      const component = createMockComponent();
+      const spy = vi.spyOn(component, '$effect');
+      const effect = vi.fn();
+      const deps = () => [1];
+
+      runWithComponent(component, () => useEffect(effect, deps));
+
+      expect(spy).toHaveBeenCalledWith(effect, deps, undefined);
+    });
+
+    it('should throw without a component outside of setup', () => {
+      expect(() => useEffect(vi.fn())).toThrow(
+        'useEffect() was called without a component',
+      );
+    });
   });
 
   describe('useMount', () => {
@@ -170,6 +207,19 @@ describe('composables/useEffect', () => {
 
       expect(createEffect).toHaveBeenCalled();
     });
+
+    it('should use the current component when omitted', () => {
+      const component = createMockComponent();
+      const effect = vi.fn();
+
+      runWithComponent(component, () => useMount(effect));
+
+      expect(createEffect).toHaveBeenCalledWith(
+        component,
+        effect,
+        expect.any(Function),
+      );
+    });
   });
 
   describe('useUnmount', () => {
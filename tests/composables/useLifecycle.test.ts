@@ -0,0 +1,74 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import {
+  useBeforeMount,
+  useBeforeUpdate,
+  useUpdated,
+  useBeforeUnmount,
+  useUnmounted,
+} from '../../src/composables/useLifecycle';
+import { installComposables } from '../../src/core/plugin';
+import { registerHook } from '../../src/core/lifecycle';
+import { runWithComponent } from '../../src/core/instance';
+import type { EnhancedComponent } from '../../src/types';
+
+// Mock registerHook
+vi.mock('../../src/core/lifecycle', () => ({
+  registerHook: vi.fn(),
+  callHooks: vi.fn(),
+}));
+
+// Helper to create a mock component
+function createMockComponent(): EnhancedComponent {
+  const component = {
+    update: vi.fn(),
+    __composables__: {
+      states: new Map(),
+      effects: new Map(),
+      watchers: new Map(),
+      computed: new Map(),
+      cleanups: [],
+      hooks: new Map(),
+    },
+  } as any;
+
+  // Simulate plugin installation
+  installComposables();
+
+  return component;
+}
+
+describe('composables/useLifecycle', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it.each([
+    ['useBeforeMount', useBeforeMount, 'beforeMount'],
+    ['useBeforeUpdate', useBeforeUpdate, 'beforeUpdate'],
+    ['useUpdated', useUpdated, 'updated'],
+    ['useBeforeUnmount', useBeforeUnmount, 'beforeUnmount'],
+    ['useUnmounted', useUnmounted, 'unmounted'],
+  ] as const)('%s should register a %s hook', (_, useHook, name) => {
+    const component = createMockComponent();
+    const hook = vi.fn();
+
+    useHook(component, hook);
+
+    expect(registerHook).toHaveBeenCalledWith(component, name, hook);
+  });
+
+  it('should use the current component when omitted', () => {
+    const component = createMockComponent();
+    const hook = vi.fn();
+
+    runWithComponent(component, () => useUpdated(hook));
+
+    expect(registerHook).toHaveBeenCalledWith(component, 'updated', hook);
+  });
+
+  it('should throw without a component outside of setup', () => {
+    expect(() => useBeforeUnmount(vi.fn())).toThrow(
+      'useBeforeUnmount() was called without a component'
+    );
+  });
+});
@@ -0,0 +1,103 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { useProps, usePropsWatch } from '../../src/composables/useProps';
+import { installComposables } from '../../src/core/plugin';
+import { createReactiveProps, createPropsWatch } from '../../src/core/props';
+import { runWithComponent } from '../../src/core/instance';
+import type { EnhancedComponent } from '../../src/types';
+
+// Mock createReactiveProps and createPropsWatch
+vi.mock('../../src/core/props', () => ({
+  createReactiveProps: vi.fn(),
+  createPropsWatch: vi.fn(),
+  updateReactiveProps: vi.fn(),
+}));
+
+// Helper to create a mock component
+function createMockComponent(): EnhancedComponent {
+  const component = {
+    update: vi.fn(),
+    props: {},
+    __composables__: {
+      states: new Map(),
+      effects: new Map(),
+      watchers: new Map(),
+      computed: new Map(),
+      cleanups: [],
+      hooks: new Map(),
+      provides: new Map(),
+    },
+  } as any;
+
+  // Simulate plugin installation
+  installComposables();
+
+  return component;
+}
+
+describe('composables/useProps', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  describe('useProps', () => {
+    it('should return the reactive props of the component', () => {
+      const component = createMockComponent();
+      const props = { count: 1 };
+      vi.mocked(createReactiveProps).mockReturnValue(props);
+
+      expect(useProps(component)).toBe(props);
+      expect(createReactiveProps).toHaveBeenCalledWith(component);
+    });
+
+    it('should use the current component when omitted', () => {
+      const component = createMockComponent();
+
+      runWithComponent(component, () => useProps());
+
+      expect(createReactiveProps).toHaveBeenCalledWith(component);
+    });
+
+    it('should throw without a component outside of setup', () => {
+      expect(() => useProps()).toThrow(
+        'useProps() was called without a component'
+      );
+    });
+  });
+
+  describe('usePropsWatch', () => {
+    it('should call createPropsWatch with the callback and options', () => {
+      const component = createMockComponent();
+      const callback = vi.fn();
+      const options = { keys: ['page'], flush: 'post' as const };
+
+      usePropsWatch(component, callback, options);
+
+      expect(createPropsWatch).toHaveBeenCalledWith(
+        component,
+        callback,
+        options,
+      );
+    });
+
+    it('should return the handle of createPropsWatch', () => {
+      const component = createMockComponent();
+      const handle = vi.fn();
+      vi.mocked(createPropsWatch).mockReturnValue(handle as any);
+
+      expect(usePropsWatch(component, vi.fn())).toBe(handle);
+    });
+
+    it('should use the current component when omitted', () => {
+      const component = createMockComponent();
+      const callback = vi.fn();
+
+      runWithComponent(component, () => usePropsWatch(callback));
+
+      expect(createPropsWatch).toHaveBeenCalledWith(
+        component,
+        callback,
+        undefined,
+      );
+    });
+  });
+});
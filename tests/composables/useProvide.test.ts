@@ -0,0 +1,93 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { useProvide, useInject } from '../../src/composables/useProvide';
+import { installComposables } from '../../src/core/plugin';
+import { provide, inject } from '../../src/core/inject';
+import { runWithComponent } from '../../src/core/instance';
+import type { EnhancedComponent, InjectionKey } from '../../src/types';
+
+// Mock provide and inject
+vi.mock('../../src/core/inject', () => ({
+  provide: vi.fn(),
+  inject: vi.fn(),
+}));
+
+// Helper to create a mock component
+function createMockComponent(): EnhancedComponent {
+  const component = {
+    update: vi.fn(),
+    __composables__: {
+      states: new Map(),
+      effects: new Map(),
+      watchers: new Map(),
+      computed: new Map(),
+      cleanups: [],
+      hooks: new Map(),
+      provides: new Map(),
+    },
+  } as any;
+
+  // Simulate plugin installation
+  installComposables();
+
+  return component;
+}
+
+const ThemeKey: InjectionKey<string> = Symbol('theme');
+
+describe('composables/useProvide', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  describe('useProvide', () => {
+    it('should call provide with the key and value', () => {
+      const component = createMockComponent();
+
+      useProvide(component, ThemeKey, 'dark');
+
+      expect(provide).toHaveBeenCalledWith(component, ThemeKey, 'dark');
+    });
+
+    it('should use the current component when omitted', () => {
+      const component = createMockComponent();
+
+      runWithComponent(component, () => useProvide('locale', 'en'));
+
+      expect(provide).toHaveBeenCalledWith(component, 'locale', 'en');
+    });
+  });
+
+  describe('useInject', () => {
+    it('should return the value of inject', () => {
+      const component = createMockComponent();
+      vi.mocked(inject).mockReturnValue('dark');
+
+      expect(useInject(component, ThemeKey)).toBe('dark');
+      expect(inject).toHaveBeenCalledWith(component, ThemeKey);
+    });
+
+    it('should pass the default value only when given', () => {
+      const component = createMockComponent();
+
+      useInject(component, ThemeKey, 'light');
+      useInject(component, ThemeKey, undefined as any);
+
+      expect(inject).toHaveBeenNthCalledWith(1, component, ThemeKey, 'light');
+      expect(vi.mocked(inject).mock.calls[1]).toHaveLength(3);
+    });
+
+    it('should use the current component when omitted', () => {
+      const component = createMockComponent();
+
+      runWithComponent(component, () => useInject(ThemeKey, 'light'));
+
+      expect(inject).toHaveBeenCalledWith(component, ThemeKey, 'light');
+    });
+
+    it('should throw without a component outside of setup', () => {
+      expect(() => useInject(ThemeKey)).toThrow(
+        'useInject() was called without a component'
+      );
+    });
+  });
+});
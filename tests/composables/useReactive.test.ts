@@ -1,5 +1,10 @@
 import { describe, it, expect, vi, beforeEach } from 'vitest';
-import { useReactive } from '../../src/composables/useReactive';
+import {
+  useReactive,
+  useShallowReactive,
+} from '../../src/composables/useReactive';
+import { createShallowReactive, isReactive } from '../../src/core/reactive';
+import { nextTick } from '../../src/core/scheduler';
 import { installComposables } from '../../src/core/plugin';
 import type { EnhancedComponent } from '../../src/types';
 
@@ -31,6 +36,13 @@ function createMockComponent(): EnhancedComponent {
     return proxy;
   };
 
+  // Add $shallowReactive method (normally added by plugin)
+  component.$shallowReactive = function <T extends object>(
+    initialState: T,
+  ): T {
+    return createShallowReactive(this, initialState);
+  };
+
   return component;
 }
 
@@ -120,4 +132,30 @@ describe('composables/useReactive', () => {
     expect(state1.count).toBe(5);
     expect(state2.name).toBe('Jane');
   });
+
+  describe('useShallowReactive', () => {
+    it('should call component.$shallowReactive', () => {
+      const component = createMockComponent();
+      const spy = vi.spyOn(component, '$shallowReactive');
+
+      const initialState = { data: { n: 1 } };
+      useShallowReactive(component, initialState);
+
+      expect(spy).toHaveBeenCalledWith(initialState);
+    });
+
+    it('should only track top-level properties', async () => {
+      const component = createMockComponent();
+      const state = useShallowReactive(component, { data: { n: 1 } });
+
+      state.data.n = 2;
+      await nextTick();
+      expect(component.update).not.toHaveBeenCalled();
+      expect(isReactive(state.data)).toBe(false);
+
+      state.data = { n: 3 };
+      await nextTick();
+      expect(component.update).toHaveBeenCalledTimes(1);
+    });
+  });
 });
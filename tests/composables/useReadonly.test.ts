@@ -0,0 +1,75 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { useReadonly } from '../../src/composables/useReadonly';
+import { installComposables } from '../../src/core/plugin';
+import {
+  createReactive,
+  createReadonly,
+  isReadonly,
+} from '../../src/core/reactive';
+import type { EnhancedComponent } from '../../src/types';
+
+// Helper to create a mock component with plugin installed
+function createMockComponent(): EnhancedComponent {
+  const component = {
+    update: vi.fn(),
+    __composables__: {
+      states: new Map(),
+      effects: new Map(),
+      watchers: new Map(),
+      computed: new Map(),
+      cleanups: [],
+    },
+  } as any;
+
+  // Simulate plugin installation
+  installComposables();
+
+  // Add $readonly method (normally added by plugin)
+  component.$readonly = function <T extends object>(
+    initialState: T,
+  ): Readonly<T> {
+    return createReadonly(this, initialState);
+  };
+
+  return component;
+}
+
+describe('composables/useReadonly', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('should call component.$readonly', () => {
+    const component = createMockComponent();
+    const spy = vi.spyOn(component, '$readonly');
+
+    const initialState = { count: 0 };
+    useReadonly(component, initialState);
+
+    expect(spy).toHaveBeenCalledWith(initialState);
+  });
+
+  it('should return a readonly view', () => {
+    const component = createMockComponent();
+    const consoleWarn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const view = useReadonly(component, { count: 0 });
+
+    (view as any).count = 1;
+
+    expect(isReadonly(view)).toBe(true);
+    expect(view.count).toBe(0);
+    expect(consoleWarn).toHaveBeenCalled();
+
+    consoleWarn.mockRestore();
+  });
+
+  it('should follow changes of a reactive source', () => {
+    const component = createMockComponent();
+    const state = createReactive(component, { items: [1] });
+    const view = useReadonly(component, state);
+
+    state.items.push(2);
+
+    expect(view.items).toEqual([1, 2]);
+  });
+});
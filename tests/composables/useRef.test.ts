@@ -0,0 +1,81 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { useRef } from '../../src/composables/useRef';
+import { installComposables } from '../../src/core/plugin';
+import { createRef } from '../../src/core/ref';
+import { nextTick } from '../../src/core/scheduler';
+import { runWithComponent } from '../../src/core/instance';
+import type { EnhancedComponent } from '../../src/types';
+
+// Helper to create a mock component with plugin installed
+function createMockComponent(): EnhancedComponent {
+  const component = {
+    update: vi.fn(),
+    __composables__: {
+      states: new Map(),
+      effects: new Map(),
+      watchers: new Map(),
+      computed: new Map(),
+      cleanups: [],
+    },
+  } as any;
+
+  // Simulate plugin installation
+  installComposables();
+
+  // Add $ref method (normally added by plugin)
+  component.$ref = function <T>(initialValue: T) {
+    return createRef(this, initialValue);
+  };
+
+  return component;
+}
+
+describe('composables/useRef', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('should call component.$ref', () => {
+    const component = createMockComponent();
+    const spy = vi.spyOn(component, '$ref');
+
+    useRef(component, 0);
+
+    expect(spy).toHaveBeenCalledWith(0);
+  });
+
+  it('should hold primitive values', () => {
+    const component = createMockComponent();
+
+    expect(useRef(component, 42).value).toBe(42);
+    expect(useRef(component, 'hello').value).toBe('hello');
+    expect(useRef(component, false).value).toBe(false);
+  });
+
+  it('should trigger updates when assigned', async () => {
+    const component = createMockComponent();
+    const open = useRef(component, false);
+
+    open.value = !open.value;
+
+    await nextTick();
+    expect(open.value).toBe(true);
+    expect(component.update).toHaveBeenCalledTimes(1);
+  });
+
+  it('should use the current component when omitted', () => {
+    const component = createMockComponent();
+    const spy = vi.spyOn(component, '$ref');
+
+    const count = runWithComponent(component, () => useRef(0));
+
+    expect(spy).toHaveBeenCalledWith(0);
+    expect(count.value).toBe(0);
+  });
+
+  it('should throw without a component outside of setup', () => {
+    expect(() => useRef(0)).toThrow(
+      '[riot-composables] useRef() was called without a component outside of setup() or onBeforeMount'
+    );
+  });
+});
@@ -1,12 +1,26 @@
 import { describe, it, expect, vi, beforeEach } from 'vitest';
-import { useWatch } from '../../src/composables/useWatch';
+import {
+  useWatch,
+  useWatchEffect,
+  useDebouncedWatch,
+  useThrottledWatch,
+} from '../../src/composables/useWatch';
 import { installComposables } from '../../src/core/plugin';
-import { createWatch } from '../../src/core/watch';
+import {
+  createWatch,
+  createWatchEffect,
+  createDebouncedWatch,
+  createThrottledWatch,
+} from '../../src/core/watch';
+import { runWithComponent } from '../../src/core/instance';
 import type { EnhancedComponent, WatchCallback } from '../../src/types';
 
 // Mock createWatch
 vi.mock('../../src/core/watch', () => ({
   createWatch: vi.fn(),
+  createWatchEffect: vi.fn(),
+  createDebouncedWatch: vi.fn(),
+  createThrottledWatch: vi.fn(),
 }));
 
 // Helper to create a mock component
@@ -33,6 +47,11 @@ function createMockComponent(): EnhancedComponent {
     createWatch(this, getter, callback);
   };
 
+  // Add $watchEffect method (normally added by plugin)
+  component.$watchEffect = function (effect: () => void): void {
+    createWatchEffect(this, effect);
+  };
+
   return component;
 }
 
@@ -49,7 +68,37 @@ describe('composables/useWatch', () => {
 
     useWatch(component, getter, callback);
 
-    expect(spy).toHaveBeenCalledWith(getter, callback);
+    expect(spy).toHaveBeenCalledWith(getter, callback, undefined);
+  });
+
+  it('should pass options to $watch', () => {
+    const component = createMockComponent();
+    const spy = vi.spyOn(component, '$watch');
+    const getter = () => 5;
+    const callback = vi.fn();
+
+    useWatch(component, getter, callback, { flush: 'sync' });
+
+    expect(spy).toHaveBeenCalledWith(getter, callback, { flush: 'sync' });
+  });
+
+  it('should return the stop handle of $watch', () => {
+    const component = createMockComponent();
+    const handle = vi.fn();
+    vi.spyOn(component, '$watch').mockReturnValue(handle as any);
+
+    expect(useWatch(component, () => 5, vi.fn())).toBe(handle);
+  });
+
+  it('should pass an array of sources to $watch', () => {
+    const component = createMockComponent();
+    const spy = vi.spyOn(component, '$watch');
+    const sources = [() => 1, () => 'a'] as const;
+    const callback = vi.fn();
+
+    useWatch(component, [...sources], callback);
+
+    expect(spy).toHaveBeenCalledWith([...sources], callback, undefined);
   });
 
   it('should call createWatch internally', () => {
@@ -221,4 +270,106 @@ describe('composables/useWatch', () => {
 
     expect(createWatch).toHaveBeenCalled();
   });
+
+  it('should use the current component when omitted', () => {
+    const component = createMockComponent();
+    const spy = vi.spyOn(component, '$watch');
+    const getter = () => 5;
+    const callback = vi.fn();
+
+    runWithComponent(component, () => useWatch(getter, callback));
+
+    expect(spy).toHaveBeenCalledWith(getter, callback, undefined);
+  });
+
+  it('should throw without a component outside of setup', () => {
+    expect(() => useWatch(() => 5, vi.fn())).toThrow(
+      'useWatch() was called without a component',
+    );
+  });
+
+  describe('useWatchEffect', () => {
+    it('should call component.$watchEffect', () => {
+      const component = createMockComponent();
+      const watchEffectSpy = vi.spyOn(component, '$watchEffect');
+      const effect = vi.fn();
+
+      useWatchEffect(component, effect);
+
+      expect(watchEffectSpy).toHaveBeenCalledWith(effect);
+    });
+
+    it('should pass the component to createWatchEffect', () => {
+      const component = createMockComponent();
+      const effect = vi.fn();
+
+      useWatchEffect(component, effect);
+
+      expect(createWatchEffect).toHaveBeenCalledWith(component, effect);
+    });
+  });
+
+  describe('useDebouncedWatch', () => {
+    it('should call createDebouncedWatch with the wait and options', () => {
+      const component = createMockComponent();
+      const getter = () => 5;
+      const callback = vi.fn();
+      const options = { maxWait: 1000 };
+
+      useDebouncedWatch(component, getter, callback, 300, options);
+
+      expect(createDebouncedWatch).toHaveBeenCalledWith(
+        component,
+        getter,
+        callback,
+        300,
+        options,
+      );
+    });
+
+    it('should return the handle of createDebouncedWatch', () => {
+      const component = createMockComponent();
+      const handle = vi.fn();
+      vi.mocked(createDebouncedWatch).mockReturnValue(handle as any);
+
+      expect(useDebouncedWatch(component, () => 5, vi.fn(), 300)).toBe(handle);
+    });
+
+    it('should use the current component when omitted', () => {
+      const component = createMockComponent();
+      const getter = () => 5;
+      const callback = vi.fn();
+
+      runWithComponent(component, () =>
+        useDebouncedWatch(getter, callback, 300)
+      );
+
+      expect(createDebouncedWatch).toHaveBeenCalledWith(
+        component,
+        getter,
+        callback,
+        300,
+        undefined,
+      );
+    });
+  });
+
+  describe('useThrottledWatch', () => {
+    it('should call createThrottledWatch with the wait and options', () => {
+      const component = createMockComponent();
+      const getter = () => 5;
+      const callback = vi.fn();
+      const options = { trailing: false };
+
+      useThrottledWatch(component, getter, callback, 300, options);
+
+      expect(createThrottledWatch).toHaveBeenCalledWith(
+        component,
+        getter,
+        callback,
+        300,
+        options,
+      );
+    });
+  });
 });
@@ -1,5 +1,12 @@
 import { describe, it, expect, vi } from 'vitest';
-import { createComputed, createComputedObject } from '../../src/core/computed';
+import {
+  createComputed,
+  createComputedObject,
+  createAsyncComputed,
+} from '../../src/core/computed';
+import { createReactive } from '../../src/core/reactive';
+import { createRef, isRef } from '../../src/core/ref';
+import { nextTick } from '../../src/core/scheduler';
 import type { EnhancedComponent } from '../../src/types';
 
 // Helper to create a mock component
@@ -139,6 +146,304 @@ describe('core/computed', () => {
     });
   });
 
+  describe('writable computed', () => {
+    it('should read through the getter and write through the setter', () => {
+      const component = createMockComponent();
+      const state = createReactive(component, { first: 'Ada', last: 'Byron' });
+
+      const fullName = createComputed(component, {
+        get: () => `${state.first} ${state.last}`,
+        set: (value: string) => {
+          [state.first, state.last] = value.split(' ');
+        },
+      });
+
+      expect(fullName.value).toBe('Ada Byron');
+
+      fullName.value = 'Ada Lovelace';
+
+      expect(state.last).toBe('Lovelace');
+      expect(fullName.value).toBe('Ada Lovelace');
+    });
+
+    it('should stay cached until a dependency changes', () => {
+      const component = createMockComponent();
+      const state = createReactive(component, { celsius: 0 });
+      const get = vi.fn(() => state.celsius * 1.8 + 32);
+
+      const fahrenheit = createComputed(component, {
+        get,
+        set: (value: number) => {
+          state.celsius = (value - 32) / 1.8;
+        },
+      });
+
+      expect(fahrenheit.value).toBe(32);
+      expect(fahrenheit.value).toBe(32);
+      expect(get).toHaveBeenCalledTimes(1);
+
+      fahrenheit.value = 212;
+
+      expect(state.celsius).toBe(100);
+      expect(fahrenheit.value).toBe(212);
+      expect(get).toHaveBeenCalledTimes(2);
+    });
+
+    it('should be a ref', () => {
+      const component = createMockComponent();
+      const computed = createComputed(component, { get: () => 1, set: () => {} });
+
+      expect(isRef(computed)).toBe(true);
+    });
+
+    it('should catch, log and rethrow errors in setter', () => {
+      const component = createMockComponent();
+      const consoleError = vi.spyOn(console, 'error').mockImplementation(() => {});
+      const computed = createComputed(component, {
+        get: () => 1,
+        set: () => {
+          throw new Error('Setter error');
+        },
+      });
+
+      expect(() => {
+        computed.value = 2;
+      }).toThrow('Setter error');
+      expect(consoleError).toHaveBeenCalledWith(
+        '[riot-composables] Error in computed setter:',
+        expect.any(Error)
+      );
+
+      consoleError.mockRestore();
+    });
+  });
+
+  describe('dependency tracking', () => {
+    it('should recompute only when a tracked property changes', () => {
+      const component = createMockComponent();
+      const state = createReactive(component, { count: 1, other: 0 });
+      const getter = vi.fn(() => state.count * 2);
+
+      const doubled = createComputed(component, getter);
+      expect(doubled.value).toBe(2);
+
+      state.other = 5;
+      expect(doubled.value).toBe(2);
+      expect(getter).toHaveBeenCalledTimes(1);
+
+      state.count = 3;
+      expect(doubled.value).toBe(6);
+      expect(getter).toHaveBeenCalledTimes(2);
+    });
+
+    it('should be marked dirty when a tracked property changes', () => {
+      const component = createMockComponent();
+      const state = createReactive(component, { count: 1 });
+      createComputed(component, () => state.count).value;
+
+      const computedData = Array.from(
+        component.__composables__.computed.values(),
+      )[0];
+      expect(computedData.dirty).toBe(false);
+
+      state.count++;
+      expect(computedData.dirty).toBe(true);
+    });
+
+    it('should only track properties read in the last run', () => {
+      const component = createMockComponent();
+      const state = createReactive(component, { useA: true, a: 1, b: 2 });
+      const getter = vi.fn(() => (state.useA ? state.a : state.b));
+
+      const value = createComputed(component, getter);
+      expect(value.value).toBe(1);
+
+      state.useA = false;
+      expect(value.value).toBe(2);
+
+      // `a` is no longer a dependency
+      state.a = 10;
+      expect(value.value).toBe(2);
+      expect(getter).toHaveBeenCalledTimes(2);
+    });
+
+    it('should support computed-of-computed chains', () => {
+      const component = createMockComponent();
+      const state = createReactive(component, { count: 1, other: 0 });
+      const doubledGetter = vi.fn(() => state.count * 2);
+      const doubled = createComputed(component, doubledGetter);
+      const quadrupledGetter = vi.fn(() => doubled.value * 2);
+      const quadrupled = createComputed(component, quadrupledGetter);
+
+      expect(quadrupled.value).toBe(4);
+
+      state.other = 1;
+      expect(quadrupled.value).toBe(4);
+      expect(quadrupledGetter).toHaveBeenCalledTimes(1);
+
+      state.count = 2;
+      expect(quadrupled.value).toBe(8);
+      expect(doubledGetter).toHaveBeenCalledTimes(2);
+      expect(quadrupledGetter).toHaveBeenCalledTimes(2);
+    });
+
+    it('should track refs', () => {
+      const component = createMockComponent();
+      const count = createRef(component, 1);
+      const getter = vi.fn(() => count.value + 1);
+
+      const next = createComputed(component, getter);
+      expect(next.value).toBe(2);
+
+      count.value = 5;
+      expect(next.value).toBe(6);
+      expect(getter).toHaveBeenCalledTimes(2);
+    });
+
+    it('should track array contents', () => {
+      const component = createMockComponent();
+      const state = createReactive(component, {
+        rows: [{ price: 1 }, { price: 2 }],
+      });
+      const total = createComputed(component, () =>
+        state.rows.reduce((sum, row) => sum + row.price, 0),
+      );
+
+      expect(total.value).toBe(3);
+
+      state.rows.push({ price: 3 });
+      expect(total.value).toBe(6);
+
+      state.rows[0].price = 10;
+      expect(total.value).toBe(15);
+    });
+
+    it('should stop tracking when cleanups run', () => {
+      const component = createMockComponent();
+      const state = createReactive(component, { count: 1 });
+      createComputed(component, () => state.count).value;
+
+      component.__composables__.cleanups.slice().forEach((cleanup) => cleanup());
+      state.count = 2;
+
+      const computedData = Array.from(
+        component.__composables__.computed.values(),
+      )[0];
+      expect(computedData.dirty).toBe(false);
+    });
+  });
+
+  describe('createAsyncComputed', () => {
+    // Resolve pending promise callbacks
+    const settle = () => new Promise((resolve) => setTimeout(resolve, 0));
+
+    it('should expose the loading state and the resolved value', async () => {
+      const component = createMockComponent();
+      const state = createReactive(component, { sku: 'a' });
+
+      const price = createAsyncComputed(
+        component,
+        async () => (state.sku === 'a' ? 10 : 20),
+        { initial: 0 },
+      );
+
+      expect(price.loading).toBe(true);
+      expect(price.value).toBe(0);
+
+      await settle();
+
+      expect(price.loading).toBe(false);
+      expect(price.value).toBe(10);
+    });
+
+    it('should re-evaluate when the state read before await changes', async () => {
+      const component = createMockComponent();
+      const state = createReactive(component, { sku: 'a' });
+      const getter = vi.fn(async () => (state.sku === 'a' ? 10 : 20));
+
+      const price = createAsyncComputed(component, getter);
+      await settle();
+
+      state.sku = 'b';
+      await nextTick();
+      await settle();
+      expect(getter).toHaveBeenCalledTimes(2);
+      expect(price.value).toBe(20);
+    });
+
+    it('should abort and ignore outdated evaluations', async () => {
+      const component = createMockComponent();
+      const state = createReactive(component, { query: 'a' });
+      const resolvers: Array<(value: string) => void> = [];
+      const signals: AbortSignal[] = [];
+
+      const result = createAsyncComputed(component, (signal) => {
+        const query = state.query;
+        signals.push(signal);
+        return new Promise<string>((resolve) =>
+          resolvers.push(() => resolve(`results for ${query}`)),
+        );
+      });
+
+      state.query = 'b';
+      await nextTick();
+      expect(signals[0].aborted).toBe(true);
+
+      resolvers[1]('');
+      await settle();
+      resolvers[0]('');
+      await settle();
+
+      expect(result.value).toBe('results for b');
+      expect(result.loading).toBe(false);
+    });
+
+    it('should expose errors', async () => {
+      const component = createMockComponent();
+      const error = new Error('Lookup failed');
+
+      const result = createAsyncComputed(component, async () => {
+        throw error;
+      });
+      await settle();
+
+      expect(result.error).toBe(error);
+      expect(result.loading).toBe(false);
+      expect(result.value).toBeUndefined();
+    });
+
+    it('should wait for the first read when lazy', async () => {
+      const component = createMockComponent();
+      const getter = vi.fn(async () => 1);
+
+      const result = createAsyncComputed(component, getter, { lazy: true });
+      expect(getter).not.toHaveBeenCalled();
+      expect(result.loading).toBe(false);
+
+      expect(result.value).toBeUndefined();
+      expect(getter).toHaveBeenCalledTimes(1);
+
+      await settle();
+      expect(result.value).toBe(1);
+      expect(getter).toHaveBeenCalledTimes(1);
+    });
+
+    it('should abort the evaluation on unmount', async () => {
+      const component = createMockComponent();
+      let signal: AbortSignal | undefined;
+
+      const result = createAsyncComputed(component, async (s) => {
+        signal = s;
+        return 1;
+      });
+      component.__composables__.cleanups.slice().forEach((fn) => fn());
+      await settle();
+
+      expect(signal!.aborted).toBe(true);
+      expect(result.value).toBeUndefined();
+    });
+  });
+
   describe('createComputedObject', () => {
     it('should create multiple computed values', () => {
       const component = createMockComponent();
@@ -0,0 +1,130 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import {
+  setOptions,
+  isDevMode,
+  logMessage,
+  logWarning,
+  logError,
+  reportError,
+} from '../../src/core/config';
+import type { EnhancedComponent } from '../../src/types';
+
+// Helper to create a logger recording its calls
+function createLogger() {
+  return { log: vi.fn(), warn: vi.fn(), error: vi.fn() };
+}
+
+describe('core/config', () => {
+  afterEach(() => {
+    setOptions();
+  });
+
+  describe('isDevMode', () => {
+    it('should follow NODE_ENV by default', () => {
+      expect(isDevMode()).toBe(process.env.NODE_ENV !== 'production');
+    });
+
+    it('should use the devMode option when set', () => {
+      setOptions({ devMode: false });
+      expect(isDevMode()).toBe(false);
+
+      setOptions({ devMode: true });
+      expect(isDevMode()).toBe(true);
+    });
+  });
+
+  describe('logging', () => {
+    it('should log through the configured logger', () => {
+      const logger = createLogger();
+      setOptions({ logger, devMode: true });
+
+      logMessage('Hello');
+      logWarning('Careful');
+      logError('Broken');
+
+      expect(logger.log).toHaveBeenCalledWith('[riot-composables] Hello');
+      expect(logger.warn).toHaveBeenCalledWith('[riot-composables] Careful');
+      expect(logger.error).toHaveBeenCalledWith('[riot-composables] Broken');
+    });
+
+    it('should only log messages in dev mode', () => {
+      const logger = createLogger();
+      setOptions({ logger, devMode: false });
+
+      logMessage('Hello');
+      logWarning('Careful');
+
+      expect(logger.log).not.toHaveBeenCalled();
+      expect(logger.warn).toHaveBeenCalled();
+    });
+
+    it('should not log messages and warnings when silent', () => {
+      const logger = createLogger();
+      setOptions({ logger, devMode: true, silent: true });
+
+      logMessage('Hello');
+      logWarning('Careful');
+      logError('Broken');
+
+      expect(logger.log).not.toHaveBeenCalled();
+      expect(logger.warn).not.toHaveBeenCalled();
+      expect(logger.error).toHaveBeenCalled();
+    });
+  });
+
+  describe('reportError', () => {
+    it('should log errors with the phase by default', () => {
+      const logger = createLogger();
+      const error = new Error('Oops');
+      setOptions({ logger });
+
+      reportError(error, undefined, 'watch callback');
+      reportError(error, undefined, 'update');
+
+      expect(logger.error).toHaveBeenCalledWith(
+        '[riot-composables] Error in watch callback:',
+        error
+      );
+      expect(logger.error).toHaveBeenCalledWith(
+        '[riot-composables] Error during component update:',
+        error
+      );
+    });
+
+    it('should call the error handler instead of logging', () => {
+      const logger = createLogger();
+      const errorHandler = vi.fn();
+      const component = {} as EnhancedComponent;
+      const error = new Error('Oops');
+      setOptions({ logger, errorHandler, silent: true });
+
+      reportError(error, component, 'effect');
+
+      expect(errorHandler).toHaveBeenCalledWith(error, component, 'effect');
+      expect(logger.error).not.toHaveBeenCalled();
+    });
+
+    it('should log errors of the error handler and the original error', () => {
+      const logger = createLogger();
+      const handlerError = new Error('Handler failed');
+      const error = new Error('Oops');
+      setOptions({
+        logger,
+        errorHandler: () => {
+          throw handlerError;
+        },
+      });
+
+      reportError(error, undefined, 'cleanup');
+
+      expect(logger.error).toHaveBeenCalledWith(
+        '[riot-composables] Error in error handler:',
+        handlerError
+      );
+      expect(logger.error).toHaveBeenCalledWith(
+        '[riot-composables] Error in cleanup:',
+        error
+      );
+    });
+  });
+});
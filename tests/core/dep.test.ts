@@ -0,0 +1,226 @@
+import { describe, it, expect, vi } from 'vitest';
+import {
+  ITERATE_KEY,
+  createSubscriber,
+  cleanupSubscriber,
+  runTracked,
+  track,
+  trigger,
+  triggerAll,
+  pauseTracking,
+  resetTracking,
+} from '../../src/core/dep';
+import { createReactive } from '../../src/core/reactive';
+import { createRef } from '../../src/core/ref';
+import type { EnhancedComponent } from '../../src/types';
+
+// Helper to create a mock component
+function createMockComponent(): EnhancedComponent {
+  return {
+    update: vi.fn(),
+    __composables__: {
+      states: new Map(),
+      effects: new Map(),
+      watchers: new Map(),
+      computed: new Map(),
+      cleanups: [],
+    },
+  } as any;
+}
+
+// Run a getter tracked by a fresh subscriber and return its notify spy
+function trackReads(getter: () => unknown) {
+  const notify = vi.fn();
+  const subscriber = createSubscriber(notify);
+  runTracked(subscriber, getter);
+  return { notify, subscriber };
+}
+
+describe('core/dep', () => {
+  describe('track / trigger', () => {
+    it('should notify subscribers of the triggered key only', () => {
+      const target = {};
+      const { notify } = trackReads(() => track(target, 'a'));
+
+      trigger(target, 'b');
+      expect(notify).not.toHaveBeenCalled();
+
+      trigger(target, 'a');
+      expect(notify).toHaveBeenCalledTimes(1);
+    });
+
+    it('should notify iteration subscribers when keys change', () => {
+      const target = {};
+      const { notify } = trackReads(() => track(target, ITERATE_KEY));
+
+      trigger(target, 'a');
+      expect(notify).not.toHaveBeenCalled();
+
+      trigger(target, 'a', true);
+      expect(notify).toHaveBeenCalledTimes(1);
+    });
+
+    it('should notify every subscriber of a target with triggerAll', () => {
+      const target = {};
+      const a = trackReads(() => track(target, 'a'));
+      const b = trackReads(() => track(target, 'b'));
+
+      triggerAll(target);
+
+      expect(a.notify).toHaveBeenCalledTimes(1);
+      expect(b.notify).toHaveBeenCalledTimes(1);
+    });
+
+    it('should not track outside runTracked', () => {
+      const target = {};
+      const notify = vi.fn();
+      createSubscriber(notify);
+
+      track(target, 'a');
+      trigger(target, 'a');
+
+      expect(notify).not.toHaveBeenCalled();
+    });
+
+    it('should not track while paused', () => {
+      const target = {};
+      const { notify } = trackReads(() => {
+        const previous = pauseTracking();
+        track(target, 'a');
+        resetTracking(previous);
+      });
+
+      trigger(target, 'a');
+      expect(notify).not.toHaveBeenCalled();
+    });
+
+    it('should drop dependencies from the previous run', () => {
+      const target = {};
+      const notify = vi.fn();
+      const subscriber = createSubscriber(notify);
+
+      runTracked(subscriber, () => track(target, 'a'));
+      runTracked(subscriber, () => track(target, 'b'));
+
+      trigger(target, 'a');
+      expect(notify).not.toHaveBeenCalled();
+      trigger(target, 'b');
+      expect(notify).toHaveBeenCalledTimes(1);
+    });
+
+    it('should stop notifying after cleanupSubscriber', () => {
+      const target = {};
+      const { notify, subscriber } = trackReads(() => track(target, 'a'));
+
+      cleanupSubscriber(subscriber);
+      trigger(target, 'a');
+
+      expect(notify).not.toHaveBeenCalled();
+      expect(subscriber.deps.size).toBe(0);
+    });
+
+    it('should restore the outer subscriber after a nested run', () => {
+      const target = {};
+      const outer = createSubscriber(vi.fn());
+      const inner = createSubscriber(vi.fn());
+
+      runTracked(outer, () => {
+        runTracked(inner, () => track(target, 'inner'));
+        track(target, 'outer');
+      });
+
+      trigger(target, 'outer');
+      expect(outer.notify).toHaveBeenCalledTimes(1);
+      expect(inner.notify).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('reactive integration', () => {
+    it('should track property reads on reactive objects', () => {
+      const component = createMockComponent();
+      const state = createReactive(component, { a: 1, b: 2 });
+      const { notify } = trackReads(() => state.a);
+
+      state.b = 3;
+      expect(notify).not.toHaveBeenCalled();
+
+      state.a = 2;
+      expect(notify).toHaveBeenCalledTimes(1);
+    });
+
+    it('should track nested properties', () => {
+      const component = createMockComponent();
+      const state = createReactive(component, { user: { name: 'John' } });
+      const { notify } = trackReads(() => state.user.name);
+
+      state.user.name = 'Jane';
+      expect(notify).toHaveBeenCalledTimes(1);
+    });
+
+    it('should track key iteration and the in operator', () => {
+      const component = createMockComponent();
+      const state = createReactive<Record<string, number>>(component, {});
+      const keys = trackReads(() => Object.keys(state));
+      const has = trackReads(() => 'x' in state);
+
+      state.x = 1;
+      expect(keys.notify).toHaveBeenCalledTimes(1);
+      expect(has.notify).toHaveBeenCalledTimes(1);
+
+      delete state.x;
+      expect(keys.notify).toHaveBeenCalledTimes(2);
+    });
+
+    it('should track array length and iteration', () => {
+      const component = createMockComponent();
+      const state = createReactive(component, { items: [1, 2] });
+      const sum = trackReads(() => state.items.reduce((a, b) => a + b, 0));
+      const length = trackReads(() => state.items.length);
+
+      state.items.push(3);
+      expect(sum.notify).toHaveBeenCalledTimes(1);
+      expect(length.notify).toHaveBeenCalledTimes(1);
+
+      state.items.length = 0;
+      expect(sum.notify).toHaveBeenCalledTimes(2);
+      expect(length.notify).toHaveBeenCalledTimes(2);
+    });
+
+    it('should not track length when calling push', () => {
+      const component = createMockComponent();
+      const state = createReactive(component, { items: [] as number[] });
+      const { notify } = trackReads(() => state.items.push(1));
+
+      state.items.push(2);
+      expect(notify).not.toHaveBeenCalled();
+    });
+
+    it('should track collection reads', () => {
+      const component = createMockComponent();
+      const state = createReactive(component, {
+        cache: new Map<string, number>(),
+      });
+      const get = trackReads(() => state.cache.get('a'));
+      const size = trackReads(() => state.cache.size);
+
+      state.cache.set('b', 1);
+      expect(get.notify).not.toHaveBeenCalled();
+      expect(size.notify).toHaveBeenCalledTimes(1);
+
+      state.cache.set('a', 1);
+      expect(get.notify).toHaveBeenCalledTimes(1);
+
+      state.cache.clear();
+      expect(get.notify).toHaveBeenCalledTimes(2);
+    });
+
+    it('should track ref values', () => {
+      const component = createMockComponent();
+      const count = createRef(component, 0);
+      const { notify } = trackReads(() => count.value);
+
+      count.value = 1;
+      expect(notify).toHaveBeenCalledTimes(1);
+    });
+  });
+});
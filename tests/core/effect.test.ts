@@ -1,5 +1,7 @@
 import { describe, it, expect, vi, beforeEach } from 'vitest';
 import { createEffect } from '../../src/core/effect';
+import { createReactive } from '../../src/core/reactive';
+import { nextTick } from '../../src/core/scheduler';
 import type { EnhancedComponent } from '../../src/types';
 
 // Helper to create a mock component
@@ -212,4 +214,396 @@ describe('core/effect', () => {
       expect(effectData.depsGetter).toBe(depsGetter);
     });
   });
+
+  describe('flush', () => {
+    it("should default to 'pre'", () => {
+      const component = createMockComponent();
+
+      createEffect(component, vi.fn(), () => []);
+
+      const effectData = Array.from(component.__composables__.effects.values())[0];
+      expect(effectData.flush).toBe('pre');
+    });
+
+    it('should store the flush option', () => {
+      const component = createMockComponent();
+
+      createEffect(component, vi.fn(), () => [], { flush: 'post' });
+
+      const effectData = Array.from(component.__composables__.effects.values())[0];
+      expect(effectData.flush).toBe('post');
+    });
+
+    it("should re-run 'sync' effects as soon as a reactive dep changes", () => {
+      const component = createMockComponent();
+      const state = createReactive(component, { count: 0 });
+      const values: number[] = [];
+
+      createEffect(
+        component,
+        () => {
+          values.push(state.count);
+        },
+        () => [state.count],
+        { flush: 'sync' },
+      );
+      component.onMounted?.call(component, {}, {});
+
+      state.count = 1;
+      expect(values).toEqual([0, 1]);
+
+      state.count = 2;
+      expect(values).toEqual([0, 1, 2]);
+    });
+
+    it("should not re-run 'sync' effects before mount", () => {
+      const component = createMockComponent();
+      const state = createReactive(component, { count: 0 });
+      const effectFn = vi.fn();
+
+      createEffect(component, effectFn, () => [state.count], { flush: 'sync' });
+
+      state.count = 1;
+      expect(effectFn).not.toHaveBeenCalled();
+
+      component.onMounted?.call(component, {}, {});
+      expect(effectFn).toHaveBeenCalledTimes(1);
+    });
+
+    it("should stop 'sync' effects when cleanups run", () => {
+      const component = createMockComponent();
+      const state = createReactive(component, { count: 0 });
+      const effectFn = vi.fn();
+
+      createEffect(component, effectFn, () => [state.count], { flush: 'sync' });
+      component.onMounted?.call(component, {}, {});
+      component.__composables__.cleanups.slice().forEach((cleanup) => cleanup());
+
+      state.count = 1;
+      expect(effectFn).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('registration after mount', () => {
+    it('should run on the next flush', async () => {
+      const component = createMockComponent();
+      component.__composables__.mounted = true;
+      const effectFn = vi.fn();
+
+      createEffect(component, effectFn);
+      expect(effectFn).not.toHaveBeenCalled();
+      expect(component.onMounted).toBeUndefined();
+
+      await nextTick();
+      expect(effectFn).toHaveBeenCalledTimes(1);
+    });
+
+    it('should read dependencies at the first run', async () => {
+      const component = createMockComponent();
+      component.__composables__.mounted = true;
+      const state = createReactive(component, { count: 0 });
+
+      createEffect(component, vi.fn(), () => [state.count]);
+      state.count = 1;
+      await nextTick();
+
+      const effectData = Array.from(component.__composables__.effects.values())[0];
+      expect(effectData.deps).toEqual([1]);
+    });
+
+    it('should not run if stopped before the flush', async () => {
+      const component = createMockComponent();
+      component.__composables__.mounted = true;
+      const effectFn = vi.fn();
+
+      createEffect(component, effectFn);
+      component.__composables__.cleanups.slice().forEach((cleanup) => cleanup());
+
+      await nextTick();
+      expect(effectFn).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('async effects', () => {
+    // Mount a component whose effect re-runs synchronously on `state.count`
+    function setup(effectFn: (signal: AbortSignal) => any) {
+      const component = createMockComponent();
+      const state = createReactive(component, { count: 0 });
+
+      createEffect(component, effectFn, () => [state.count], { flush: 'sync' });
+      component.onMounted?.call(component, {}, {});
+
+      return { component, state };
+    }
+
+    it('should pass an AbortSignal aborted when the effect re-runs', () => {
+      const signals: AbortSignal[] = [];
+      const { state } = setup((signal) => {
+        signals.push(signal);
+      });
+
+      expect(signals[0]).toBeInstanceOf(AbortSignal);
+      expect(signals[0].aborted).toBe(false);
+
+      state.count = 1;
+      expect(signals).toHaveLength(2);
+      expect(signals[0].aborted).toBe(true);
+      expect(signals[1].aborted).toBe(false);
+    });
+
+    it('should abort the signal when the component unmounts', () => {
+      let signal: AbortSignal | undefined;
+      const { component } = setup((s) => {
+        signal = s;
+      });
+
+      component.__composables__.cleanups.slice().forEach((cleanup) => cleanup());
+      expect(signal!.aborted).toBe(true);
+    });
+
+    it('should use the cleanup an async effect resolves to', async () => {
+      const cleanup = vi.fn();
+      const { state } = setup(async () => cleanup);
+
+      await Promise.resolve();
+      state.count = 1;
+
+      expect(cleanup).toHaveBeenCalledTimes(1);
+    });
+
+    it('should clean up a stale run as soon as it settles', async () => {
+      const cleanups: number[] = [];
+      const resolvers: Array<() => void> = [];
+      const { state } = setup(async () => {
+        const run = resolvers.length;
+        await new Promise<void>((resolve) => resolvers.push(resolve));
+        return () => cleanups.push(run);
+      });
+
+      state.count = 1;
+      expect(cleanups).toEqual([]);
+
+      // The first run settles after being superseded
+      resolvers[0]();
+      await nextTick();
+      await Promise.resolve();
+      expect(cleanups).toEqual([0]);
+
+      // The current run keeps its cleanup until the next re-run
+      resolvers[1]();
+      await Promise.resolve();
+      await Promise.resolve();
+      state.count = 2;
+      expect(cleanups).toEqual([0, 1]);
+    });
+
+    it('should await async cleanups in order before the next run', async () => {
+      const calls: string[] = [];
+      let runs = 0;
+      const { state } = setup(() => {
+        const run = runs++;
+        calls.push(`run ${run}`);
+        return async () => {
+          await Promise.resolve();
+          calls.push(`cleanup ${run}`);
+        };
+      });
+
+      state.count = 1;
+      state.count = 2;
+      expect(calls).toEqual(['run 0']);
+
+      // The run queued for count 1 is superseded while waiting
+      await new Promise((resolve) => setTimeout(resolve, 0));
+      expect(calls).toEqual(['run 0', 'cleanup 0', 'run 1']);
+
+      state.count = 3;
+      await new Promise((resolve) => setTimeout(resolve, 0));
+      expect(calls).toEqual(['run 0', 'cleanup 0', 'run 1', 'cleanup 1', 'run 2']);
+    });
+
+    it('should only log errors of runs that were not aborted', async () => {
+      const consoleError = vi
+        .spyOn(console, 'error')
+        .mockImplementation(() => {});
+      const { state } = setup(async (signal) => {
+        await Promise.resolve();
+        throw new Error(signal.aborted ? 'Aborted' : 'Failed');
+      });
+
+      state.count = 1;
+      await new Promise((resolve) => setTimeout(resolve, 0));
+
+      expect(consoleError).toHaveBeenCalledTimes(1);
+      expect(consoleError).toHaveBeenCalledWith(
+        '[riot-composables] Error in effect:',
+        new Error('Failed'),
+      );
+
+      consoleError.mockRestore();
+    });
+  });
+
+  describe('equals', () => {
+    // Mount a component whose effect depends on a fresh object each check
+    function setup(options?: Parameters<typeof createEffect>[3]) {
+      const component = createMockComponent();
+      const state = createReactive(component, { page: 1, tags: ['a'] });
+      const effectFn = vi.fn();
+
+      createEffect(
+        component,
+        effectFn,
+        () => [{ page: state.page, tags: [...state.tags] }],
+        { flush: 'sync', ...options },
+      );
+      component.onMounted?.call(component, {}, {});
+
+      return { state, effectFn };
+    }
+
+    it('should compare deps with Object.is by default', () => {
+      const { state, effectFn } = setup();
+
+      state.tags[0] = 'a';
+      state.page = 1;
+      state.page = 2;
+
+      expect(effectFn).toHaveBeenCalledTimes(2);
+    });
+
+    it("should not re-run 'shallow' effects when deps keep their contents", () => {
+      const { state, effectFn } = setup({ equals: 'shallow' });
+
+      state.page = 1;
+      state.tags.push('b');
+      expect(effectFn).toHaveBeenCalledTimes(2);
+
+      state.page = 2;
+      expect(effectFn).toHaveBeenCalledTimes(3);
+    });
+
+    it("should compare 'deep' deps structurally", () => {
+      const { state, effectFn } = setup({ equals: 'deep' });
+
+      state.tags[0] = 'a';
+      expect(effectFn).toHaveBeenCalledTimes(1);
+
+      state.tags[0] = 'b';
+      expect(effectFn).toHaveBeenCalledTimes(2);
+    });
+
+    it('should use a custom comparator for each dep', () => {
+      const component = createMockComponent();
+      const state = createReactive(component, { value: 1.2 });
+      const effectFn = vi.fn();
+      const equals = vi.fn(
+        (a: number, b: number) => Math.round(a) === Math.round(b),
+      );
+
+      createEffect(component, effectFn, () => [state.value], {
+        flush: 'sync',
+        equals,
+      });
+      component.onMounted?.call(component, {}, {});
+
+      state.value = 1.4;
+      expect(effectFn).toHaveBeenCalledTimes(1);
+      expect(equals).toHaveBeenCalledWith(1.4, 1.2);
+
+      state.value = 2.1;
+      expect(effectFn).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  describe('stop handle', () => {
+    it('should remove the effect and run its cleanup', () => {
+      const component = createMockComponent();
+      const cleanup = vi.fn();
+
+      const stop = createEffect(component, () => cleanup);
+      component.onMounted?.call(component, {}, {});
+
+      stop();
+      expect(cleanup).toHaveBeenCalledTimes(1);
+      expect(component.__composables__.effects.size).toBe(0);
+      expect(component.__composables__.cleanups).toHaveLength(0);
+    });
+
+    it('should be idempotent', () => {
+      const component = createMockComponent();
+      const cleanup = vi.fn();
+
+      const handle = createEffect(component, () => cleanup);
+      component.onMounted?.call(component, {}, {});
+
+      handle.stop();
+      handle();
+      component.__composables__.cleanups.slice().forEach((fn) => fn());
+
+      expect(cleanup).toHaveBeenCalledTimes(1);
+    });
+
+    it('should abort the current run', () => {
+      const component = createMockComponent();
+      let signal: AbortSignal | undefined;
+
+      const stop = createEffect(component, (s) => {
+        signal = s;
+      });
+      component.onMounted?.call(component, {}, {});
+      stop();
+
+      expect(signal!.aborted).toBe(true);
+    });
+
+    it('should not run an effect stopped before mount', () => {
+      const component = createMockComponent();
+      const effectFn = vi.fn();
+
+      const stop = createEffect(component, effectFn);
+      stop();
+      component.onMounted?.call(component, {}, {});
+
+      expect(effectFn).not.toHaveBeenCalled();
+    });
+
+    it('should not re-run while paused and catch up on resume', async () => {
+      const component = createMockComponent();
+      const state = createReactive(component, { count: 0 });
+      const effectFn = vi.fn();
+
+      const handle = createEffect(component, effectFn, () => [state.count], {
+        flush: 'sync',
+      });
+      component.onMounted?.call(component, {}, {});
+
+      handle.pause();
+      state.count = 1;
+      state.count = 2;
+      expect(effectFn).toHaveBeenCalledTimes(1);
+
+      handle.resume();
+      await nextTick();
+      expect(effectFn).toHaveBeenCalledTimes(2);
+
+      state.count = 3;
+      expect(effectFn).toHaveBeenCalledTimes(3);
+    });
+
+    it('should not re-run on resume if nothing changed', async () => {
+      const component = createMockComponent();
+      const state = createReactive(component, { count: 0 });
+      const effectFn = vi.fn();
+
+      const handle = createEffect(component, effectFn, () => [state.count]);
+      component.onMounted?.call(component, {}, {});
+
+      handle.pause();
+      handle.resume();
+      await nextTick();
+
+      expect(effectFn).toHaveBeenCalledTimes(1);
+    });
+  });
 });
@@ -0,0 +1,111 @@
+import { describe, it, expect } from 'vitest';
+import {
+  shallowEqual,
+  deepEqual,
+  resolveEquals,
+} from '../../src/core/equals';
+
+describe('core/equals', () => {
+  describe('shallowEqual', () => {
+    it('should compare primitives with Object.is', () => {
+      expect(shallowEqual(1, 1)).toBe(true);
+      expect(shallowEqual(NaN, NaN)).toBe(true);
+      expect(shallowEqual(0, -0)).toBe(false);
+      expect(shallowEqual('a', 'b')).toBe(false);
+    });
+
+    it('should compare top-level object and array entries', () => {
+      expect(shallowEqual({ a: 1, b: 'x' }, { a: 1, b: 'x' })).toBe(true);
+      expect(shallowEqual({ a: 1 }, { a: 2 })).toBe(false);
+      expect(shallowEqual({ a: 1 }, { a: 1, b: 2 })).toBe(false);
+      expect(shallowEqual([1, 2], [1, 2])).toBe(true);
+      expect(shallowEqual([1, 2], [1, 2, 3])).toBe(false);
+    });
+
+    it('should not compare nested objects structurally', () => {
+      expect(shallowEqual({ a: { b: 1 } }, { a: { b: 1 } })).toBe(false);
+
+      const nested = { b: 1 };
+      expect(shallowEqual({ a: nested }, { a: nested })).toBe(true);
+    });
+
+    it('should treat different prototypes as different', () => {
+      expect(shallowEqual([], {})).toBe(false);
+      expect(shallowEqual({}, null)).toBe(false);
+      expect(shallowEqual(new Map(), new Set())).toBe(false);
+    });
+
+    it('should compare Map, Set and Date values', () => {
+      expect(shallowEqual(new Map([['a', 1]]), new Map([['a', 1]]))).toBe(true);
+      expect(shallowEqual(new Map([['a', 1]]), new Map([['a', 2]]))).toBe(false);
+      expect(shallowEqual(new Set([1, 2]), new Set([2, 1]))).toBe(true);
+      expect(shallowEqual(new Set([1]), new Set([2]))).toBe(false);
+      expect(shallowEqual(new Date(0), new Date(0))).toBe(true);
+      expect(shallowEqual(new Date(0), new Date(1))).toBe(false);
+    });
+  });
+
+  describe('deepEqual', () => {
+    it('should compare nested structures', () => {
+      expect(
+        deepEqual(
+          { filter: { tags: ['a', 'b'], range: new Date(0) } },
+          { filter: { tags: ['a', 'b'], range: new Date(0) } },
+        ),
+      ).toBe(true);
+      expect(
+        deepEqual({ filter: { tags: ['a'] } }, { filter: { tags: ['b'] } }),
+      ).toBe(false);
+    });
+
+    it('should compare nested Map values', () => {
+      expect(
+        deepEqual(new Map([['a', { b: 1 }]]), new Map([['a', { b: 1 }]])),
+      ).toBe(true);
+      expect(
+        deepEqual(new Map([['a', { b: 1 }]]), new Map([['a', { b: 2 }]])),
+      ).toBe(false);
+    });
+
+    it('should compare Set members structurally', () => {
+      expect(
+        deepEqual(
+          new Set([{ id: 1 }, { id: 2 }]),
+          new Set([{ id: 2 }, { id: 1 }]),
+        ),
+      ).toBe(true);
+      expect(
+        deepEqual(
+          new Set([{ id: 1 }, { id: 1 }]),
+          new Set([{ id: 1 }, { id: 2 }]),
+        ),
+      ).toBe(false);
+    });
+
+    it('should handle circular references', () => {
+      const a: any = { name: 'a' };
+      a.self = a;
+      const b: any = { name: 'a' };
+      b.self = b;
+      const c: any = { name: 'c' };
+      c.self = c;
+
+      expect(deepEqual(a, b)).toBe(true);
+      expect(deepEqual(a, c)).toBe(false);
+    });
+  });
+
+  describe('resolveEquals', () => {
+    it('should default to Object.is', () => {
+      expect(resolveEquals()).toBe(Object.is);
+    });
+
+    it('should resolve built-in strategies and custom comparators', () => {
+      const comparator = (a: number, b: number) => Math.abs(a - b) < 1;
+
+      expect(resolveEquals('shallow')).toBe(shallowEqual);
+      expect(resolveEquals('deep')).toBe(deepEqual);
+      expect(resolveEquals(comparator)).toBe(comparator);
+    });
+  });
+});
@@ -0,0 +1,29 @@
+import { describe, it, expect, vi } from 'vitest';
+import { createStopHandle } from '../../src/core/handle';
+
+describe('core/handle', () => {
+  describe('createStopHandle', () => {
+    it('should stop when called', () => {
+      const stop = vi.fn();
+      const handle = createStopHandle(stop, vi.fn(), vi.fn());
+
+      handle();
+      expect(stop).toHaveBeenCalledTimes(1);
+    });
+
+    it('should expose stop, pause and resume', () => {
+      const stop = vi.fn();
+      const pause = vi.fn();
+      const resume = vi.fn();
+      const handle = createStopHandle(stop, pause, resume);
+
+      handle.stop();
+      handle.pause();
+      handle.resume();
+
+      expect(stop).toHaveBeenCalledTimes(1);
+      expect(pause).toHaveBeenCalledTimes(1);
+      expect(resume).toHaveBeenCalledTimes(1);
+    });
+  });
+});
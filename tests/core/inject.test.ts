@@ -0,0 +1,222 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { component } from 'riot';
+import { provide, inject } from '../../src/core/inject';
+import {
+  installComposables,
+  uninstallComposables,
+  isComposablesInstalled,
+} from '../../src/core/plugin';
+import { createRef } from '../../src/core/ref';
+import { nextTick } from '../../src/core/scheduler';
+import type { EnhancedComponent, InjectionKey, Ref } from '../../src/types';
+
+const ThemeKey: InjectionKey<string> = Symbol('theme');
+
+// Template rendering a single child component
+const childTemplate =
+  (name: string) =>
+  (template: any, expressionTypes: any, bindingTypes: any, getComponent: any) =>
+    template('<div expr0="expr0"></div>', [
+      {
+        type: bindingTypes.TAG,
+        getComponent,
+        evaluate: () => name,
+        slots: [],
+        attributes: [],
+        redundantAttribute: 'expr0',
+        selector: '[expr0]',
+      },
+    ]);
+
+// Template rendering the component's `text` binding
+const textTemplate = (template: any, expressionTypes: any) =>
+  template('<p expr0="expr0"> </p>', [
+    {
+      selector: '[expr0]',
+      expressions: [
+        {
+          type: expressionTypes.TEXT,
+          childNodeIndex: 0,
+          evaluate: (scope: any) => scope.text,
+        },
+      ],
+    },
+  ]);
+
+// Helper to describe a component running `onBeforeMount` with composables
+function createWrapper(
+  name: string,
+  onBeforeMount: (instance: EnhancedComponent) => void,
+  child?: any
+): any {
+  return {
+    name,
+    template: child ? childTemplate(child.name) : textTemplate,
+    exports: {
+      components: child ? { [child.name]: child } : {},
+      onBeforeMount(this: EnhancedComponent) {
+        onBeforeMount(this);
+      },
+    },
+  };
+}
+
+// Helper to mount a component tree
+function mountTree(wrapper: any): HTMLElement {
+  const element = document.createElement('div');
+  component(wrapper)(element);
+  return element;
+}
+
+describe('core/inject', () => {
+  beforeEach(() => {
+    if (isComposablesInstalled()) {
+      uninstallComposables();
+    }
+    installComposables();
+  });
+
+  it('should inject a value provided by the parent', () => {
+    let injected: string | undefined;
+
+    mountTree(
+      createWrapper(
+        'inject-parent',
+        (instance) => provide(instance, ThemeKey, 'dark'),
+        createWrapper('inject-child', (instance) => {
+          injected = inject(instance, ThemeKey);
+        })
+      )
+    );
+
+    expect(injected).toBe('dark');
+  });
+
+  it('should resolve through ancestors, closest first', () => {
+    const injected: Record<string, unknown> = {};
+
+    mountTree(
+      createWrapper(
+        'inject-grandparent',
+        (instance) => {
+          provide(instance, ThemeKey, 'light');
+          provide(instance, 'locale', 'en');
+        },
+        createWrapper(
+          'inject-middle',
+          (instance) => provide(instance, ThemeKey, 'dark'),
+          createWrapper('inject-leaf', (instance) => {
+            injected.theme = inject(instance, ThemeKey);
+            injected.locale = inject(instance, 'locale');
+          })
+        )
+      )
+    );
+
+    expect(injected).toEqual({ theme: 'dark', locale: 'en' });
+  });
+
+  it('should not inject values provided by the component itself', () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    let injected: string | undefined = 'unset';
+
+    mountTree(
+      createWrapper('inject-self', (instance) => {
+        provide(instance, ThemeKey, 'dark');
+        injected = inject(instance, ThemeKey);
+      })
+    );
+
+    expect(injected).toBeUndefined();
+    warn.mockRestore();
+  });
+
+  it('should return the default value when nothing provides the key', () => {
+    let injected: string | undefined;
+
+    mountTree(
+      createWrapper('inject-default', (instance) => {
+        injected = inject(instance, ThemeKey, 'light');
+      })
+    );
+
+    expect(injected).toBe('light');
+  });
+
+  it('should warn when nothing provides the key and there is no default', () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+    mountTree(
+      createWrapper('inject-missing', (instance) => {
+        inject(instance, ThemeKey);
+      })
+    );
+
+    expect(warn).toHaveBeenCalledWith(
+      '[riot-composables] Injection "Symbol(theme)" not found'
+    );
+    warn.mockRestore();
+  });
+
+  it('should fall back to app-level provides', () => {
+    uninstallComposables();
+    installComposables({ provide: { [ThemeKey]: 'app', locale: 'fr' } });
+    const injected: Record<string, unknown> = {};
+
+    mountTree(
+      createWrapper(
+        'inject-app-parent',
+        (instance) => provide(instance, 'locale', 'en'),
+        createWrapper('inject-app-child', (instance) => {
+          injected.theme = inject(instance, ThemeKey);
+          injected.locale = inject(instance, 'locale');
+        })
+      )
+    );
+
+    expect(injected).toEqual({ theme: 'app', locale: 'en' });
+  });
+
+  it('should share reactive values with descendants', async () => {
+    const CountKey: InjectionKey<Ref<number>> = Symbol('count');
+    let count!: Ref<number>;
+
+    const element = mountTree(
+      createWrapper(
+        'inject-reactive-parent',
+        (instance) => {
+          count = createRef(instance, 1);
+          provide(instance, CountKey, count);
+        },
+        createWrapper('inject-reactive-child', (instance) => {
+          const injected = inject(instance, CountKey)!;
+          Object.defineProperty(instance, 'text', {
+            get: () => injected.value,
+          });
+        })
+      )
+    );
+
+    expect(element.textContent).toBe('1');
+
+    count.value = 2;
+    await nextTick();
+
+    expect(element.textContent).toBe('2');
+  });
+
+  it('should drop the provided values on unmount', () => {
+    let context: any;
+
+    const instance: any = component(
+      createWrapper('inject-unmount', (instance) => {
+        context = instance.__composables__;
+        provide(instance, ThemeKey, 'dark');
+      })
+    )(document.createElement('div'));
+
+    instance.unmount();
+
+    expect(context.provides.size).toBe(0);
+  });
+});
@@ -0,0 +1,107 @@
+import { describe, it, expect } from 'vitest';
+import { component } from 'riot';
+import {
+  getCurrentComponent,
+  runWithComponent,
+  resolveComponentArgs,
+} from '../../src/core/instance';
+import type { EnhancedComponent } from '../../src/types';
+
+// Helper to create a mock component
+function createMockComponent(): EnhancedComponent {
+  return {
+    update: () => {},
+    __composables__: {
+      states: new Map(),
+      effects: new Map(),
+      watchers: new Map(),
+      computed: new Map(),
+      cleanups: [],
+    },
+  } as any;
+}
+
+describe('core/instance', () => {
+  describe('getCurrentComponent', () => {
+    it('should return null outside of a component', () => {
+      expect(getCurrentComponent()).toBeNull();
+    });
+
+    it('should return the component while running with it', () => {
+      const component = createMockComponent();
+
+      const current = runWithComponent(component, () => getCurrentComponent());
+
+      expect(current).toBe(component);
+      expect(getCurrentComponent()).toBeNull();
+    });
+
+    it('should restore the previous component after nested runs', () => {
+      const parent = createMockComponent();
+      const child = createMockComponent();
+
+      runWithComponent(parent, () => {
+        runWithComponent(child, () => {
+          expect(getCurrentComponent()).toBe(child);
+        });
+        expect(getCurrentComponent()).toBe(parent);
+      });
+    });
+
+    it('should restore the previous component when the function throws', () => {
+      const component = createMockComponent();
+
+      expect(() =>
+        runWithComponent(component, () => {
+          throw new Error('Setup error');
+        })
+      ).toThrow('Setup error');
+      expect(getCurrentComponent()).toBeNull();
+    });
+  });
+
+  describe('resolveComponentArgs', () => {
+    it('should keep an explicit component', () => {
+      const component = createMockComponent();
+      const other = createMockComponent();
+
+      const args = runWithComponent(other, () =>
+        resolveComponentArgs('useRef', [component, 1])
+      );
+
+      expect(args).toEqual([component, 1]);
+    });
+
+    it('should prepend the current component', () => {
+      const component = createMockComponent();
+
+      const args = runWithComponent(component, () =>
+        resolveComponentArgs('useRef', [1])
+      );
+
+      expect(args[0]).toBe(component);
+      expect(args.slice(1)).toEqual([1]);
+    });
+
+    it('should throw when the component is not enhanced', () => {
+      const plain = component({ name: 'plain-component', exports: {} } as any)(
+        document.createElement('div')
+      );
+      const current = createMockComponent();
+
+      expect(() =>
+        runWithComponent(current, () =>
+          resolveComponentArgs('useRef', [plain, 1])
+        )
+      ).toThrow(
+        '[riot-composables] useRef() was called with a component that is not enhanced. Call installComposables() or wrap its exports with withComposables()'
+      );
+    });
+
+    it('should throw without a current component', () => {
+      expect(() => resolveComponentArgs('useRef', [1])).toThrow(
+        '[riot-composables] useRef() was called without a component outside of setup() or onBeforeMount'
+      );
+    });
+  });
+});
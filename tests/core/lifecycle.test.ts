@@ -0,0 +1,208 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { component } from 'riot';
+import { registerHook, callHooks } from '../../src/core/lifecycle';
+import {
+  installComposables,
+  uninstallComposables,
+  isComposablesInstalled,
+  withComposables,
+} from '../../src/core/plugin';
+import { createEffect } from '../../src/core/effect';
+import type { EnhancedComponent } from '../../src/types';
+
+// Helper to mount a component registering hooks in onBeforeMount
+function mountWithHooks(
+  register: (instance: EnhancedComponent) => void,
+  exports: object = {}
+): any {
+  return component({
+    name: 'lifecycle-hooks',
+    exports: {
+      ...exports,
+      onBeforeMount(this: EnhancedComponent) {
+        register(this);
+      },
+    },
+  } as any)(document.createElement('div'), { label: 'a' });
+}
+
+describe('core/lifecycle', () => {
+  beforeEach(() => {
+    if (isComposablesInstalled()) {
+      uninstallComposables();
+    }
+    installComposables();
+  });
+
+  it('should call every hook of a phase in registration order', () => {
+    const calls: string[] = [];
+
+    const instance = mountWithHooks((instance) => {
+      registerHook(instance, 'beforeUpdate', () => calls.push('first'));
+      registerHook(instance, 'beforeUpdate', () => calls.push('second'));
+    });
+
+    expect(calls).toEqual([]);
+    instance.update();
+    expect(calls).toEqual(['first', 'second']);
+  });
+
+  it('should call each phase at its point of the lifecycle', () => {
+    const calls: string[] = [];
+
+    const instance = mountWithHooks(
+      (instance) => {
+        registerHook(instance, 'beforeMount', () => calls.push('beforeMount'));
+        registerHook(instance, 'beforeUpdate', () =>
+          calls.push('beforeUpdate')
+        );
+        registerHook(instance, 'updated', () => calls.push('updated'));
+        registerHook(instance, 'beforeUnmount', () =>
+          calls.push('beforeUnmount')
+        );
+        registerHook(instance, 'unmounted', () => calls.push('unmounted'));
+      },
+      {
+        onMounted: () => calls.push('onMounted'),
+        onUpdated: () => calls.push('onUpdated'),
+        onUnmounted: () => calls.push('onUnmounted'),
+      }
+    );
+
+    instance.update();
+    instance.unmount();
+
+    expect(calls).toEqual([
+      'beforeMount',
+      'onMounted',
+      'beforeUpdate',
+      'updated',
+      'onUpdated',
+      'beforeUnmount',
+      'unmounted',
+      'onUnmounted',
+    ]);
+  });
+
+  it('should call hooks with the component, props and state', () => {
+    const hook = vi.fn(function (this: any) {
+      return this;
+    });
+
+    const instance = mountWithHooks((instance) => {
+      registerHook(instance, 'beforeMount', hook);
+    });
+
+    expect(hook).toHaveBeenCalledWith(
+      expect.objectContaining({ label: 'a' }),
+      instance.state
+    );
+    expect(hook.mock.results[0].value).toBe(instance);
+  });
+
+  it('should call beforeUnmount hooks before effects are cleaned up', () => {
+    const calls: string[] = [];
+
+    const instance = mountWithHooks((instance) => {
+      createEffect(instance, () => () => calls.push('effect cleanup'));
+      registerHook(instance, 'beforeUnmount', () =>
+        calls.push('beforeUnmount')
+      );
+    });
+
+    instance.unmount();
+
+    expect(calls).toEqual(['beforeUnmount', 'effect cleanup']);
+  });
+
+  it('should drop the hooks when the component unmounts', () => {
+    let context: any;
+
+    const instance = mountWithHooks((instance) => {
+      context = instance.__composables__;
+      registerHook(instance, 'updated', () => {});
+    });
+
+    instance.unmount();
+
+    expect(context.hooks.size).toBe(0);
+  });
+
+  it('should report errors and keep calling the next hooks', () => {
+    uninstallComposables();
+    const errorHandler = vi.fn();
+    const error = new Error('Hook error');
+    const next = vi.fn();
+    installComposables({ errorHandler });
+
+    const instance = mountWithHooks((instance) => {
+      registerHook(instance, 'beforeUpdate', () => {
+        throw error;
+      });
+      registerHook(instance, 'beforeUpdate', next);
+    });
+
+    instance.update();
+
+    expect(errorHandler).toHaveBeenCalledWith(
+      error,
+      instance,
+      'lifecycle hook'
+    );
+    expect(next).toHaveBeenCalledTimes(1);
+  });
+
+  it('should call hooks registered while calling from the next phase on', () => {
+    const late = vi.fn();
+
+    const instance = mountWithHooks((instance) => {
+      registerHook(instance, 'beforeUpdate', () =>
+        registerHook(instance, 'beforeUpdate', late)
+      );
+    });
+
+    instance.update();
+    expect(late).not.toHaveBeenCalled();
+
+    instance.update();
+    expect(late).toHaveBeenCalledTimes(1);
+  });
+
+  it('should ignore beforeMount hooks registered after mount', () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const hook = vi.fn();
+
+    const instance = mountWithHooks(() => {});
+    registerHook(instance, 'beforeMount', hook);
+    callHooks(instance, 'beforeMount', instance.props, instance.state);
+
+    expect(hook).not.toHaveBeenCalled();
+    expect(warn).toHaveBeenCalledWith(
+      '[riot-composables] A beforeMount hook was registered after the component mounted and will never run'
+    );
+    warn.mockRestore();
+  });
+
+  it('should call beforeMount hooks once with withComposables', () => {
+    uninstallComposables();
+    const hook = vi.fn();
+    const exports = {
+      onBeforeMount(this: EnhancedComponent) {
+        registerHook(this, 'beforeMount', hook);
+      },
+    };
+
+    component({
+      name: 'lifecycle-opt-in',
+      exports: withComposables(exports),
+    } as any)(document.createElement('div'));
+
+    installComposables();
+    component({
+      name: 'lifecycle-opt-in-installed',
+      exports: withComposables(exports),
+    } as any)(document.createElement('div'));
+
+    expect(hook).toHaveBeenCalledTimes(2);
+  });
+});
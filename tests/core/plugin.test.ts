@@ -1,9 +1,15 @@
-import { describe, it, expect, beforeEach } from 'vitest';
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { component } from 'riot';
+import { nextTick } from '../../src/core/scheduler';
 import {
   installComposables,
   uninstallComposables,
   isComposablesInstalled,
+  withComposables,
 } from '../../src/core/plugin';
+import { getCurrentComponent } from '../../src/core/instance';
+import { useRef } from '../../src/composables/useRef';
+import { useWatch } from '../../src/composables/useWatch';
 
 describe('Plugin', () => {
   beforeEach(() => {
@@ -44,4 +50,796 @@ describe('Plugin', () => {
     // Should not throw
     expect(() => uninstallComposables()).not.toThrow();
   });
+
+  describe('options', () => {
+    it('should log through the configured logger', () => {
+      const logger = { log: vi.fn(), warn: vi.fn(), error: vi.fn() };
+
+      installComposables({ logger, devMode: true });
+      installComposables();
+
+      expect(logger.log).toHaveBeenCalledWith(
+        '[riot-composables] Plugin installed successfully'
+      );
+      expect(logger.warn).toHaveBeenCalledWith(
+        '[riot-composables] Plugin is already installed'
+      );
+    });
+
+    it('should not log when silent', () => {
+      const log = vi.spyOn(console, 'log').mockImplementation(() => {});
+
+      installComposables({ silent: true, devMode: true });
+
+      expect(log).not.toHaveBeenCalled();
+      log.mockRestore();
+    });
+
+    it('should pass caught errors to the error handler with their component and phase', async () => {
+      const errorHandler = vi.fn();
+      const effectError = new Error('Effect error');
+      const cleanupError = new Error('Cleanup error');
+      installComposables({ errorHandler });
+
+      const instance: any = component({
+        name: 'failing-effect',
+        exports: {
+          onBeforeMount() {
+            this.$effect(() => {
+              throw effectError;
+            });
+            this.__composables__.cleanups.push(() => {
+              throw cleanupError;
+            });
+          },
+        },
+      })(document.createElement('div'), {});
+
+      expect(errorHandler).toHaveBeenCalledWith(effectError, instance, 'effect');
+
+      instance.unmount();
+
+      expect(errorHandler).toHaveBeenCalledWith(
+        cleanupError,
+        instance,
+        'cleanup'
+      );
+    });
+
+    it('should reset the options on uninstall', () => {
+      const logger = { log: vi.fn(), warn: vi.fn(), error: vi.fn() };
+      const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+      installComposables({ logger });
+      uninstallComposables();
+      uninstallComposables();
+
+      expect(warn).toHaveBeenCalledWith('[riot-composables] Plugin is not installed');
+      expect(logger.warn).not.toHaveBeenCalled();
+      warn.mockRestore();
+    });
+  });
+
+  describe('withComposables', () => {
+    // Renders `<p>{count}</p>` from the component's reactive state
+    const counterTemplate = (template: any, expressionTypes: any) =>
+      template('<p expr0="expr0"> </p>', [
+        {
+          selector: '[expr0]',
+          expressions: [
+            {
+              type: expressionTypes.TEXT,
+              childNodeIndex: 0,
+              evaluate: (scope: any) => scope.counter.count,
+            },
+          ],
+        },
+      ]);
+
+    const createCounter = (effect: () => () => void) =>
+      withComposables({
+        onBeforeMount(this: any) {
+          this.counter = this.$reactive({ count: 0 });
+          this.$effect(effect);
+        },
+      });
+
+    it('should enhance the component without a global install', async () => {
+      const cleanup = vi.fn();
+      const element = document.createElement('div');
+
+      const instance: any = component({
+        name: 'opt-in-counter',
+        template: counterTemplate,
+        exports: createCounter(() => cleanup),
+      } as any)(element);
+
+      expect(isComposablesInstalled()).toBe(false);
+      expect(element.textContent).toBe('0');
+
+      instance.counter.count = 1;
+      await nextTick();
+      expect(element.textContent).toBe('1');
+
+      instance.unmount();
+      expect(cleanup).toHaveBeenCalledTimes(1);
+    });
+
+    it('should not enhance other components', () => {
+      withComposables({});
+
+      const instance: any = component({
+        name: 'plain-component',
+        exports: {},
+      })(document.createElement('div'));
+
+      expect(instance.__composables__).toBeUndefined();
+      expect(instance.$reactive).toBeUndefined();
+    });
+
+    it('should not enhance a component twice when installed globally', () => {
+      installComposables();
+      const effect = vi.fn();
+
+      const instance: any = component({
+        name: 'opt-in-installed',
+        template: counterTemplate,
+        exports: createCounter(effect),
+      } as any)(document.createElement('div'));
+
+      expect(effect).toHaveBeenCalledTimes(1);
+      expect(instance.__composables__.effects.size).toBe(1);
+    });
+
+    it('should call the original onBeforeMount and keep the export untouched', () => {
+      const exports = {
+        onBeforeMount: vi.fn(function (this: any) {
+          this.counter = this.$reactive({ count: 2 });
+        }),
+      };
+      const element = document.createElement('div');
+
+      component({
+        name: 'opt-in-original',
+        template: counterTemplate,
+        exports: withComposables(exports),
+      } as any)(element, { label: 'a' });
+
+      expect(exports.onBeforeMount).toHaveBeenCalledWith(
+        expect.objectContaining({ label: 'a' }),
+        expect.anything()
+      );
+      expect(Object.keys(exports)).toEqual(['onBeforeMount']);
+      expect(element.textContent).toBe('2');
+    });
+
+    it('should support factory exports', () => {
+      const element = document.createElement('div');
+
+      component({
+        name: 'opt-in-factory',
+        template: counterTemplate,
+        exports: withComposables(() => ({
+          onBeforeMount(this: any) {
+            this.counter = this.$reactive({ count: 3 });
+          },
+        })),
+      } as any)(element);
+
+      expect(element.textContent).toBe('3');
+    });
+  });
+
+  describe('setup', () => {
+    // Renders `<p>{count}</p>` from the component's `count` binding
+    const countTemplate = (template: any, expressionTypes: any) =>
+      template('<p expr0="expr0"> </p>', [
+        {
+          selector: '[expr0]',
+          expressions: [
+            {
+              type: expressionTypes.TEXT,
+              childNodeIndex: 0,
+              evaluate: (scope: any) => scope.count,
+            },
+          ],
+        },
+      ]);
+
+    it('should bind the returned values with refs unwrapped', async () => {
+      installComposables();
+      const element = document.createElement('div');
+
+      const instance: any = component({
+        name: 'setup-counter',
+        template: countTemplate,
+        exports: {
+          setup(this: any) {
+            const count = this.$ref(1);
+            const doubled = this.$computed(() => count.value * 2);
+            const increment = () => count.value++;
+            return { count, doubled, increment };
+          },
+        },
+      } as any)(element);
+
+      expect(element.textContent).toBe('1');
+      expect(instance.doubled).toBe(2);
+
+      instance.increment();
+      await nextTick();
+      expect(element.textContent).toBe('2');
+      expect(instance.doubled).toBe(4);
+
+      instance.count = 5;
+      await nextTick();
+      expect(element.textContent).toBe('5');
+    });
+
+    it('should run before onBeforeMount with the props and context', () => {
+      installComposables();
+      const calls: string[] = [];
+      const setup = vi.fn(() => {
+        calls.push('setup');
+        return { count: 0 };
+      });
+      const element = document.createElement('div');
+
+      const instance: any = component({
+        name: 'setup-order',
+        template: countTemplate,
+        exports: {
+          setup,
+          onBeforeMount(this: any) {
+            calls.push(`onBeforeMount ${this.count}`);
+          },
+        },
+      } as any)(element, { label: 'a' });
+
+      expect(calls).toEqual(['setup', 'onBeforeMount 0']);
+      expect(setup).toHaveBeenCalledWith(
+        expect.objectContaining({ label: 'a' }),
+        expect.objectContaining({ component: instance, root: element })
+      );
+    });
+
+    it('should ignore reserved bindings', () => {
+      installComposables();
+      const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+      const instance: any = component({
+        name: 'setup-reserved',
+        template: countTemplate,
+        exports: {
+          setup: () => ({ count: 1, update: () => {}, $reactive: null }),
+        },
+      } as any)(document.createElement('div'));
+
+      expect(typeof instance.update).toBe('function');
+      expect(typeof instance.$reactive).toBe('function');
+      expect(warn).toHaveBeenCalledWith(
+        '[riot-composables] setup() binding "update" is reserved and was ignored'
+      );
+      warn.mockRestore();
+    });
+
+    it('should report setup errors', () => {
+      const errorHandler = vi.fn();
+      const error = new Error('Setup error');
+      installComposables({ errorHandler });
+
+      const instance: any = component({
+        name: 'setup-error',
+        exports: {
+          setup() {
+            throw error;
+          },
+        },
+      } as any)(document.createElement('div'));
+
+      expect(errorHandler).toHaveBeenCalledWith(error, instance, 'setup');
+    });
+
+    it('should run setup once with withComposables', () => {
+      const setup = vi.fn(() => ({ count: 3 }));
+      const element = document.createElement('div');
+
+      component({
+        name: 'setup-opt-in',
+        template: countTemplate,
+        exports: withComposables({ setup }),
+      } as any)(element);
+
+      installComposables();
+      component({
+        name: 'setup-opt-in-installed',
+        template: countTemplate,
+        exports: withComposables({ setup }),
+      } as any)(document.createElement('div'));
+
+      expect(setup).toHaveBeenCalledTimes(2);
+      expect(element.textContent).toBe('3');
+    });
+  });
+
+  describe('current component', () => {
+    it('should be the instance during setup and onBeforeMount', () => {
+      installComposables();
+      const seen: unknown[] = [];
+
+      const instance: any = component({
+        name: 'current-component',
+        exports: {
+          setup() {
+            seen.push(getCurrentComponent());
+            return {};
+          },
+          onBeforeMount() {
+            seen.push(getCurrentComponent());
+          },
+          onMounted() {
+            seen.push(getCurrentComponent());
+          },
+        },
+      } as any)(document.createElement('div'));
+
+      expect(seen).toEqual([instance, instance, null]);
+      expect(getCurrentComponent()).toBeNull();
+    });
+
+    it('should let composables omit the component', async () => {
+      installComposables();
+      const element = document.createElement('div');
+
+      const instance: any = component({
+        name: 'current-component-counter',
+        template: (template: any, expressionTypes: any) =>
+          template('<p expr0="expr0"> </p>', [
+            {
+              selector: '[expr0]',
+              expressions: [
+                {
+                  type: expressionTypes.TEXT,
+                  childNodeIndex: 0,
+                  evaluate: (scope: any) => scope.count,
+                },
+              ],
+            },
+          ]),
+        exports: {
+          setup() {
+            const count = useRef(1);
+            useWatch(count, (value) => (doubled.value = value * 2));
+            const doubled = useRef(2);
+            return { count, doubled };
+          },
+        },
+      } as any)(element);
+
+      instance.count = 3;
+      await nextTick();
+
+      expect(element.textContent).toBe('3');
+      expect(instance.doubled).toBe(6);
+    });
+
+    it('should be available in onBeforeMount with withComposables', () => {
+      let current: unknown;
+
+      const instance: any = component({
+        name: 'current-component-opt-in',
+        exports: withComposables({
+          onBeforeMount() {
+            current = getCurrentComponent();
+          },
+        }),
+      } as any)(document.createElement('div'));
+
+      expect(current).toBe(instance);
+    });
+  });
+
+  describe('computed invalidation', () => {
+    it('should not recompute tracked computed values on unrelated updates', () => {
+      installComposables();
+      const getter = vi.fn();
+
+      const instance: any = component({
+        name: 'tracked-computed',
+        exports: {
+          onBeforeMount() {
+            const state = this.$reactive({ count: 1, other: 0 });
+            getter.mockImplementation(() => state.count * 2);
+            this.reactiveState = state;
+            this.doubled = this.$computed(getter);
+          },
+        },
+      } as any)(document.createElement('div'));
+
+      expect(instance.doubled.value).toBe(2);
+
+      instance.reactiveState.other = 1;
+      instance.update();
+      expect(instance.doubled.value).toBe(2);
+      expect(getter).toHaveBeenCalledTimes(1);
+
+      instance.reactiveState.count = 2;
+      instance.update();
+      expect(instance.doubled.value).toBe(4);
+      expect(getter).toHaveBeenCalledTimes(2);
+    });
+
+    it('should recompute computed values without reactive deps on update', () => {
+      installComposables();
+      let external = 1;
+
+      const instance: any = component({
+        name: 'untracked-computed',
+        exports: {
+          onBeforeMount() {
+            this.value = this.$computed(() => external);
+          },
+        },
+      } as any)(document.createElement('div'));
+
+      expect(instance.value.value).toBe(1);
+
+      external = 2;
+      instance.update();
+      expect(instance.value.value).toBe(2);
+    });
+
+    it('should recompute computed values reading both state and props', () => {
+      installComposables();
+      const element = document.createElement('div');
+
+      const child = {
+        name: 'mixed-computed-child',
+        template: (template: any, expressionTypes: any) =>
+          template('<p expr0="expr0"> </p>', [
+            {
+              selector: '[expr0]',
+              expressions: [
+                {
+                  type: expressionTypes.TEXT,
+                  childNodeIndex: 0,
+                  evaluate: (scope: any) => scope.product.value,
+                },
+              ],
+            },
+          ]),
+        exports: {
+          onBeforeMount(this: any) {
+            const state = this.$reactive({ count: 1 });
+            this.product = this.$computed(
+              () => state.count * this.props.factor
+            );
+          },
+        },
+      };
+
+      const parent: any = component({
+        name: 'mixed-computed-parent',
+        template: (
+          template: any,
+          expressionTypes: any,
+          bindingTypes: any,
+          getComponent: any
+        ) =>
+          template('<div expr0="expr0"></div>', [
+            {
+              type: bindingTypes.TAG,
+              getComponent,
+              evaluate: () => 'mixed-computed-child',
+              slots: [],
+              attributes: [
+                {
+                  type: expressionTypes.ATTRIBUTE,
+                  name: 'factor',
+                  evaluate: (scope: any) => scope.factor,
+                },
+              ],
+              redundantAttribute: 'expr0',
+              selector: '[expr0]',
+            },
+          ]),
+        exports: {
+          components: { 'mixed-computed-child': child },
+          factor: 2,
+        },
+      } as any)(element);
+
+      expect(element.textContent).toBe('2');
+
+      parent.factor = 10;
+      parent.update();
+      expect(element.textContent).toBe('10');
+    });
+
+    it('should recompute computed values reading both reactive and component state', () => {
+      installComposables();
+
+      const instance: any = component({
+        name: 'state-computed',
+        exports: {
+          state: { filter: '' },
+          onBeforeMount() {
+            const s = this.$reactive({ items: ['ax', 'b'] });
+            this.matches = this.$computed(
+              () =>
+                s.items.filter((item: string) =>
+                  item.includes(this.state.filter)
+                ).length
+            );
+          },
+        },
+      } as any)(document.createElement('div'));
+
+      expect(instance.matches.value).toBe(2);
+
+      instance.update({ filter: 'x' });
+      expect(instance.matches.value).toBe(1);
+    });
+  });
+
+  describe('flush timing', () => {
+    // Renders `<p>{count}</p>` from the component's reactive state
+    const counterTemplate = (template: any, expressionTypes: any) =>
+      template('<p expr0="expr0"> </p>', [
+        {
+          selector: '[expr0]',
+          expressions: [
+            {
+              type: expressionTypes.TEXT,
+              childNodeIndex: 0,
+              evaluate: (scope: any) => scope.counter.count,
+            },
+          ],
+        },
+      ]);
+
+    function mountCounter(setup: (this: any) => void) {
+      const element = document.createElement('div');
+      const instance: any = component({
+        name: 'flush-counter',
+        template: counterTemplate,
+        exports: {
+          onBeforeMount() {
+            this.counter = this.$reactive({ count: 0 });
+            setup.call(this);
+          },
+        },
+      } as any)(element);
+
+      return { element, instance };
+    }
+
+    it("should run 'pre' effects and watchers before the DOM is patched", () => {
+      installComposables();
+      const seen: string[] = [];
+
+      const { element, instance } = mountCounter(function () {
+        this.$effect(
+          () => seen.push(`effect ${this.root.textContent}`),
+          () => [this.counter.count],
+        );
+        this.$watch(
+          () => this.counter.count,
+          () => seen.push(`watch ${this.root.textContent}`),
+        );
+      });
+
+      instance.counter.count = 1;
+      instance.update();
+
+      expect(element.textContent).toBe('1');
+      expect(seen).toEqual(['effect 0', 'watch 0', 'effect 0']);
+    });
+
+    it("should run 'post' effects and watchers after the DOM is patched", () => {
+      installComposables();
+      const seen: string[] = [];
+
+      const { instance } = mountCounter(function () {
+        this.$effect(
+          () => seen.push(`effect ${this.root.textContent}`),
+          () => [this.counter.count],
+          { flush: 'post' },
+        );
+        this.$watch(
+          () => this.counter.count,
+          () => seen.push(`watch ${this.root.textContent}`),
+          { flush: 'post' },
+        );
+      });
+
+      instance.counter.count = 1;
+      instance.update();
+
+      expect(seen).toEqual(['effect 0', 'watch 1', 'effect 1']);
+    });
+
+    it("should run 'sync' watchers on mutation, before any update", () => {
+      installComposables();
+      const seen: string[] = [];
+
+      const { instance } = mountCounter(function () {
+        this.$watch(
+          () => this.counter.count,
+          (count: number) => seen.push(`watch ${count} ${this.root.textContent}`),
+          { flush: 'sync' },
+        );
+      });
+
+      instance.counter.count = 1;
+      expect(seen).toEqual(['watch 1 0']);
+
+      instance.update();
+      expect(seen).toEqual(['watch 1 0']);
+    });
+
+    it('should not update a component once unmounted', async () => {
+      installComposables();
+      const onUpdated = vi.fn();
+
+      const { instance } = mountCounter(function () {
+        this.onUpdated = onUpdated;
+      });
+      const update = vi.spyOn(instance, 'update');
+
+      instance.counter.count = 1;
+      instance.unmount(true);
+      instance.counter.count = 2;
+      await nextTick();
+
+      expect(update).not.toHaveBeenCalled();
+      expect(onUpdated).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('registration after mount', () => {
+    it('should run effects created in onMounted', async () => {
+      installComposables();
+      const effect = vi.fn();
+
+      component({
+        name: 'late-effect',
+        exports: {
+          onMounted() {
+            this.$effect(effect);
+          },
+        },
+      } as any)(document.createElement('div'));
+
+      expect(effect).not.toHaveBeenCalled();
+      await nextTick();
+      expect(effect).toHaveBeenCalledTimes(1);
+    });
+
+    it('should run and re-run effects created from an event handler', async () => {
+      installComposables();
+      const effect = vi.fn();
+
+      const instance: any = component({
+        name: 'handler-effect',
+        exports: {
+          onBeforeMount() {
+            this.counter = this.$reactive({ count: 0 });
+          },
+          handleClick() {
+            this.$effect(effect, () => [this.counter.count]);
+          },
+        },
+      } as any)(document.createElement('div'));
+
+      instance.handleClick();
+      await nextTick();
+      expect(effect).toHaveBeenCalledTimes(1);
+
+      instance.counter.count++;
+      await nextTick();
+      expect(effect).toHaveBeenCalledTimes(2);
+    });
+
+    it('should check watchers created after mount on update', async () => {
+      installComposables();
+      const callback = vi.fn();
+
+      const instance: any = component({
+        name: 'handler-watch',
+        exports: {
+          onBeforeMount() {
+            this.counter = this.$reactive({ count: 0 });
+          },
+          handleClick() {
+            this.$watch(() => this.counter.count, callback);
+          },
+        },
+      } as any)(document.createElement('div'));
+
+      instance.handleClick();
+      instance.counter.count = 1;
+      await nextTick();
+
+      expect(callback).toHaveBeenCalledWith(1, 0, expect.any(Function));
+    });
+
+    it('should not run late effects once unmounted', async () => {
+      installComposables();
+      const effect = vi.fn();
+
+      const instance: any = component({
+        name: 'unmounted-effect',
+        exports: {},
+      } as any)(document.createElement('div'));
+
+      instance.$effect(effect);
+      instance.unmount();
+
+      await nextTick();
+      expect(effect).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('async effects', () => {
+    it('should not let a stale run overwrite newer data', async () => {
+      installComposables();
+      const requests: Array<{ query: string; resolve: () => void }> = [];
+      const search = (query: string, signal: AbortSignal) =>
+        new Promise<string>((resolve, reject) => {
+          signal.addEventListener('abort', () => reject(signal.reason));
+          requests.push({ query, resolve: () => resolve(`results for ${query}`) });
+        });
+
+      const instance: any = component({
+        name: 'async-search',
+        exports: {
+          onBeforeMount() {
+            this.search = this.$reactive({ query: 'a', results: '' });
+            this.$effect(
+              async (signal: AbortSignal) => {
+                this.search.results = await search(this.search.query, signal);
+              },
+              () => [this.search.query],
+            );
+          },
+        },
+      } as any)(document.createElement('div'));
+
+      instance.search.query = 'ab';
+      await nextTick();
+
+      requests[1].resolve();
+      requests[0].resolve();
+      await nextTick();
+      await Promise.resolve();
+
+      expect(requests.map((request) => request.query)).toEqual(['a', 'ab']);
+      expect(instance.search.results).toBe('results for ab');
+    });
+  });
+
+  describe('effect deps equality', () => {
+    it("should not re-run 'shallow' effects for rebuilt props objects", () => {
+      installComposables();
+      const effect = vi.fn();
+
+      const instance: any = component({
+        name: 'filters-effect',
+        exports: {
+          onBeforeMount() {
+            this.$effect(effect, () => [{ ...this.props.filters }], {
+              equals: 'shallow',
+            });
+          },
+        },
+      } as any)(document.createElement('div'), {
+        filters: { status: 'open' },
+      });
+
+      instance.update();
+      instance.update();
+      expect(effect).toHaveBeenCalledTimes(1);
+    });
+  });
 });
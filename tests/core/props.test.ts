@@ -0,0 +1,294 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { component } from 'riot';
+import {
+  createReactiveProps,
+  createPropsWatch,
+  updateReactiveProps,
+} from '../../src/core/props';
+import {
+  installComposables,
+  uninstallComposables,
+  isComposablesInstalled,
+} from '../../src/core/plugin';
+import { createComputed } from '../../src/core/computed';
+import { createWatch } from '../../src/core/watch';
+import { isReadonly } from '../../src/core/reactive';
+import { registerHook } from '../../src/core/lifecycle';
+import { nextTick } from '../../src/core/scheduler';
+import type { EnhancedComponent } from '../../src/types';
+
+// Parent passing its `childProps` to a child component as attributes
+function mountParent(
+  childProps: Record<string, any>,
+  onBeforeMount: (child: EnhancedComponent) => void
+): any {
+  const child = {
+    name: 'props-child',
+    exports: {
+      onBeforeMount(this: EnhancedComponent) {
+        onBeforeMount(this);
+      },
+    },
+  };
+
+  return component({
+    name: 'props-parent',
+    template: (
+      template: any,
+      expressionTypes: any,
+      bindingTypes: any,
+      getComponent: any
+    ) =>
+      template('<div expr0="expr0"></div>', [
+        {
+          type: bindingTypes.TAG,
+          getComponent,
+          evaluate: () => 'props-child',
+          slots: [],
+          attributes: [
+            {
+              type: expressionTypes.ATTRIBUTE,
+              isBoolean: false,
+              name: null,
+              evaluate: (scope: any) => scope.childProps,
+            },
+          ],
+          redundantAttribute: 'expr0',
+          selector: '[expr0]',
+        },
+      ]),
+    exports: {
+      components: { 'props-child': child },
+      childProps,
+    },
+  } as any)(document.createElement('div'));
+}
+
+describe('core/props', () => {
+  beforeEach(() => {
+    if (isComposablesInstalled()) {
+      uninstallComposables();
+    }
+    installComposables();
+  });
+
+  describe('createReactiveProps', () => {
+    it('should return a readonly view of the props', () => {
+      const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+      let props: any;
+
+      mountParent({ count: 1 }, (child) => {
+        props = createReactiveProps(child);
+      });
+
+      expect(props.count).toBe(1);
+      expect(isReadonly(props)).toBe(true);
+
+      props.count = 2;
+      expect(props.count).toBe(1);
+      warn.mockRestore();
+    });
+
+    it('should return the same view on every call', () => {
+      let views: unknown[] = [];
+
+      mountParent({ count: 1 }, (child) => {
+        views = [createReactiveProps(child), createReactiveProps(child)];
+      });
+
+      expect(views[0]).toBe(views[1]);
+    });
+
+    it('should update before the child renders again', () => {
+      let props: any;
+      let seen: unknown;
+
+      const parent = mountParent({ count: 1 }, (child) => {
+        props = createReactiveProps(child);
+        registerHook(child, 'beforeUpdate', () => {
+          seen = props.count;
+        });
+      });
+
+      parent.childProps = { count: 2, label: 'a' };
+      parent.update();
+
+      expect(seen).toBe(2);
+      expect(props).toEqual({ count: 2, label: 'a' });
+
+      parent.childProps = { label: 'a' };
+      parent.update();
+
+      expect('count' in props).toBe(false);
+    });
+
+    it('should invalidate computed values reading a changed prop', () => {
+      const getter = vi.fn();
+      let doubled: any;
+
+      const parent = mountParent({ count: 1, label: 'a' }, (child) => {
+        const props = createReactiveProps<{ count: number }>(child);
+        doubled = createComputed(child, () => {
+          getter();
+          return props.count * 2;
+        });
+      });
+
+      expect(doubled.value).toBe(2);
+
+      parent.childProps = { count: 1, label: 'b' };
+      parent.update();
+      expect(doubled.value).toBe(2);
+      expect(getter).toHaveBeenCalledTimes(1);
+
+      parent.childProps = { count: 3, label: 'b' };
+      parent.update();
+      expect(doubled.value).toBe(6);
+      expect(getter).toHaveBeenCalledTimes(2);
+    });
+
+    it('should let watchers depend on a single prop', async () => {
+      const callback = vi.fn();
+
+      const parent = mountParent({ count: 1, label: 'a' }, (child) => {
+        const props = createReactiveProps<{ count: number }>(child);
+        createWatch(child, () => props.count, callback, { flush: 'sync' });
+      });
+
+      parent.childProps = { count: 1, label: 'b' };
+      parent.update();
+      expect(callback).not.toHaveBeenCalled();
+
+      parent.childProps = { count: 2, label: 'b' };
+      parent.update();
+      await nextTick();
+      expect(callback).toHaveBeenCalledTimes(1);
+      expect(callback).toHaveBeenCalledWith(2, 1, expect.any(Function));
+    });
+
+    it('should not queue an update of the component', async () => {
+      let child!: EnhancedComponent;
+
+      const parent = mountParent({ count: 1 }, (instance) => {
+        child = instance;
+        createReactiveProps(instance);
+      });
+      const update = vi.spyOn(child, 'update');
+
+      parent.childProps = { count: 2 };
+      parent.update();
+      const calls = update.mock.calls.length;
+      await nextTick();
+
+      expect(update).toHaveBeenCalledTimes(calls);
+    });
+  });
+
+  describe('updateReactiveProps', () => {
+    it('should do nothing before createReactiveProps is called', () => {
+      const component = {
+        __composables__: { states: new Map() },
+      } as any;
+
+      expect(() => updateReactiveProps(component, { count: 1 })).not.toThrow();
+      expect(component.__composables__.props).toBeUndefined();
+    });
+  });
+
+  describe('createPropsWatch', () => {
+    it('should report the changed keys with the new and old props', () => {
+      const callback = vi.fn();
+
+      const parent = mountParent({ count: 1, label: 'a' }, (child) => {
+        createPropsWatch(child, callback);
+      });
+
+      parent.childProps = { count: 2, label: 'a', extra: true };
+      parent.update();
+
+      expect(callback).toHaveBeenCalledTimes(1);
+      expect(callback).toHaveBeenCalledWith(
+        ['count', 'extra'],
+        { count: 2, label: 'a', extra: true },
+        { count: 1, label: 'a' },
+        expect.any(Function)
+      );
+
+      parent.childProps = { count: 2, label: 'a' };
+      parent.update();
+
+      expect(callback).toHaveBeenLastCalledWith(
+        ['extra'],
+        { count: 2, label: 'a' },
+        { count: 2, label: 'a', extra: true },
+        expect.any(Function)
+      );
+    });
+
+    it('should not be called when no prop changed', () => {
+      const callback = vi.fn();
+      const items = [1, 2];
+
+      const parent = mountParent({ items }, (child) => {
+        createPropsWatch(child, callback);
+      });
+
+      parent.childProps = { items };
+      parent.update();
+
+      expect(callback).not.toHaveBeenCalled();
+    });
+
+    it('should only watch the given keys', () => {
+      const callback = vi.fn();
+
+      const parent = mountParent({ page: 1, label: 'a' }, (child) => {
+        createPropsWatch(child, callback, { keys: ['page'] });
+      });
+
+      parent.childProps = { page: 1, label: 'b' };
+      parent.update();
+      expect(callback).not.toHaveBeenCalled();
+
+      parent.childProps = { page: 2, label: 'b' };
+      parent.update();
+      expect(callback).toHaveBeenCalledWith(
+        ['page'],
+        { page: 2 },
+        { page: 1 },
+        expect.any(Function)
+      );
+    });
+
+    it('should compare props with the equals option', () => {
+      const callback = vi.fn();
+
+      const parent = mountParent({ filters: { tag: 'a' } }, (child) => {
+        createPropsWatch(child, callback, { equals: 'shallow' });
+      });
+
+      parent.childProps = { filters: { tag: 'a' } };
+      parent.update();
+      expect(callback).not.toHaveBeenCalled();
+
+      parent.childProps = { filters: { tag: 'b' } };
+      parent.update();
+      expect(callback).toHaveBeenCalledTimes(1);
+    });
+
+    it('should report every prop when immediate', () => {
+      const callback = vi.fn();
+
+      mountParent({ count: 1, label: 'a' }, (child) => {
+        createPropsWatch(child, callback, { immediate: true });
+      });
+
+      expect(callback).toHaveBeenCalledWith(
+        ['count', 'label'],
+        { count: 1, label: 'a' },
+        undefined,
+        expect.any(Function)
+      );
+    });
+  });
+});
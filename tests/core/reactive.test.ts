@@ -1,5 +1,15 @@
 import { describe, it, expect, vi } from 'vitest';
-import { createReactive, isReactive, toRaw } from '../../src/core/reactive';
+import {
+  createReactive,
+  createShallowReactive,
+  createReadonly,
+  createShallowReadonly,
+  isReactive,
+  isReadonly,
+  toRaw,
+  markRaw,
+} from '../../src/core/reactive';
+import { nextTick } from '../../src/core/scheduler';
 import type { EnhancedComponent } from '../../src/types';
 
 // Helper to create a mock component
@@ -25,26 +35,28 @@ describe('core/reactive', () => {
       expect(state.count).toBe(0);
     });
 
-    it('should trigger component update on property change', () => {
+    it('should trigger component update on property change', async () => {
       const component = createMockComponent();
       const state = createReactive(component, { count: 0 });
 
       state.count = 1;
 
+      await nextTick();
       expect(component.update).toHaveBeenCalledTimes(1);
       expect(state.count).toBe(1);
     });
 
-    it('should not trigger update if value is the same', () => {
+    it('should not trigger update if value is the same', async () => {
       const component = createMockComponent();
       const state = createReactive(component, { count: 0 });
 
       state.count = 0;
 
+      await nextTick();
       expect(component.update).not.toHaveBeenCalled();
     });
 
-    it('should handle nested object properties', () => {
+    it('should handle nested object properties', async () => {
       const component = createMockComponent();
       const state = createReactive(component, {
         user: { name: 'John', age: 30 },
@@ -52,21 +64,23 @@ describe('core/reactive', () => {
 
       state.user.name = 'Jane';
 
+      await nextTick();
       expect(component.update).toHaveBeenCalled();
       expect(state.user.name).toBe('Jane');
     });
 
-    it('should trigger update on property deletion', () => {
+    it('should trigger update on property deletion', async () => {
       const component = createMockComponent();
       const state = createReactive(component, { count: 0, temp: 'value' });
 
       delete state.temp;
 
+      await nextTick();
       expect(component.update).toHaveBeenCalled();
       expect(state.temp).toBeUndefined();
     });
 
-    it('should handle multiple property changes', () => {
+    it('should batch multiple property changes into one update', async () => {
       const component = createMockComponent();
       const state = createReactive(component, { a: 1, b: 2, c: 3 });
 
@@ -74,10 +88,14 @@ describe('core/reactive', () => {
       state.b = 20;
       state.c = 30;
 
-      expect(component.update).toHaveBeenCalledTimes(3);
+      // Updates are scheduled, not run synchronously
+      expect(component.update).not.toHaveBeenCalled();
+
+      await nextTick();
+      expect(component.update).toHaveBeenCalledTimes(1);
     });
 
-    it('should catch and log errors during update', () => {
+    it('should catch and log errors during update', async () => {
       const component = createMockComponent();
       const consoleError = vi.spyOn(console, 'error').mockImplementation(() => {});
 
@@ -87,6 +105,7 @@ describe('core/reactive', () => {
 
       const state = createReactive(component, { count: 0 });
       state.count = 1;
+      await nextTick();
 
       expect(consoleError).toHaveBeenCalledWith(
         '[riot-composables] Error during component update:',
@@ -96,7 +115,7 @@ describe('core/reactive', () => {
       consoleError.mockRestore();
     });
 
-    it('should allow creating multiple reactive states', () => {
+    it('should allow creating multiple reactive states', async () => {
       const component = createMockComponent();
 
       const state1 = createReactive(component, { count: 0 });
@@ -112,8 +131,523 @@ describe('core/reactive', () => {
       expect(state1.count).toBe(10);
       expect(state2.count).toBe(20);
 
-      // Each state change should trigger an update
+      // Changes to both states in the same tick share one update
+      await nextTick();
+      expect(component.update).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('arrays', () => {
+    it('should trigger update on index write', async () => {
+      const component = createMockComponent();
+      const state = createReactive(component, { items: [1, 2, 3] });
+
+      state.items[1] = 20;
+
+      await nextTick();
+      expect(component.update).toHaveBeenCalledTimes(1);
+      expect(state.items).toEqual([1, 20, 3]);
+    });
+
+    it('should trigger update when length changes', async () => {
+      const component = createMockComponent();
+      const state = createReactive(component, { items: [1, 2, 3] });
+
+      state.items.length = 0;
+
+      await nextTick();
+      expect(component.update).toHaveBeenCalledTimes(1);
+      expect(state.items).toEqual([]);
+    });
+
+    it('should find pushed objects by identity', () => {
+      const component = createMockComponent();
+      const state = createReactive(component, {
+        todos: [] as Array<{ title: string }>,
+      });
+      const first = { title: 'first' };
+      const todo = { title: 'todo' };
+
+      state.todos.push(first, todo);
+
+      expect(state.todos.indexOf(todo)).toBe(1);
+      expect(state.todos.lastIndexOf(todo)).toBe(1);
+      expect(state.todos.includes(todo)).toBe(true);
+      expect(state.todos.find((item) => toRaw(item) === todo)).toBe(
+        state.todos[1]
+      );
+    });
+
+    it('should find items read through the proxy by identity', () => {
+      const component = createMockComponent();
+      const state = createReactive(component, {
+        todos: [{ title: 'first' }, { title: 'second' }],
+      });
+      const second = state.todos[1];
+
+      expect(state.todos.indexOf(second)).toBe(1);
+      expect(state.todos.includes(second)).toBe(true);
+      expect(state.todos.indexOf({ title: 'second' })).toBe(-1);
+      expect(state.todos.includes({ title: 'second' })).toBe(false);
+    });
+
+    it.each([
+      ['push', (items: number[]) => items.push(4), [3, 1, 2, 4]],
+      ['pop', (items: number[]) => items.pop(), [3, 1]],
+      ['shift', (items: number[]) => items.shift(), [1, 2]],
+      ['unshift', (items: number[]) => items.unshift(0), [0, 3, 1, 2]],
+      ['splice', (items: number[]) => items.splice(1, 1, 7, 8), [3, 7, 8, 2]],
+      ['sort', (items: number[]) => items.sort(), [1, 2, 3]],
+      ['reverse', (items: number[]) => items.reverse(), [2, 1, 3]],
+      ['fill', (items: number[]) => items.fill(0), [0, 0, 0]],
+      ['copyWithin', (items: number[]) => items.copyWithin(0, 1), [1, 2, 2]],
+    ])(
+      'should trigger exactly one update for %s',
+      async (_, mutate, expected) => {
+        const component = createMockComponent();
+        const state = createReactive(component, { items: [3, 1, 2] });
+
+        mutate(state.items);
+
+        await nextTick();
+        expect(component.update).toHaveBeenCalledTimes(1);
+        expect(state.items).toEqual(expected);
+      },
+    );
+
+    it('should return the native result from mutation methods', () => {
+      const component = createMockComponent();
+      const state = createReactive(component, { items: [1, 2, 3] });
+
+      expect(state.items.push(4)).toBe(4);
+      expect(state.items.pop()).toBe(4);
+      expect(state.items.splice(0, 2)).toEqual([1, 2]);
+    });
+
+    it('should not trigger update for reads', async () => {
+      const component = createMockComponent();
+      const state = createReactive(component, { items: [1, 2, 3] });
+
+      state.items.map((item) => item * 2);
+      state.items.includes(2);
+      void state.items.length;
+
+      await nextTick();
+      expect(component.update).not.toHaveBeenCalled();
+    });
+
+    it('should trigger update on nested objects inside arrays', async () => {
+      const component = createMockComponent();
+      const state = createReactive(component, {
+        todos: [
+          { title: 'a', done: false },
+          { title: 'b', done: false },
+        ],
+      });
+
+      state.todos[1].done = true;
+
+      await nextTick();
+      expect(component.update).toHaveBeenCalledTimes(1);
+      expect(state.todos[1].done).toBe(true);
+    });
+
+    it('should trigger update on arrays nested inside array items', async () => {
+      const component = createMockComponent();
+      const state = createReactive(component, {
+        groups: [{ name: 'g1', members: [{ id: 1 }] }],
+      });
+
+      state.groups[0].members.push({ id: 2 });
+      await nextTick();
+      state.groups[0].members[1].id = 3;
+
+      await nextTick();
+      expect(component.update).toHaveBeenCalledTimes(2);
+      expect(state.groups[0].members).toEqual([{ id: 1 }, { id: 3 }]);
+    });
+
+    it('should keep raw objects in the array after sorting', async () => {
+      const component = createMockComponent();
+      const raw = { rows: [{ n: 2 }, { n: 1 }] };
+      const state = createReactive(component, raw);
+
+      state.rows.sort((a, b) => a.n - b.n);
+
+      await nextTick();
+      expect(component.update).toHaveBeenCalledTimes(1);
+      expect(raw.rows).toEqual([{ n: 1 }, { n: 2 }]);
+      expect(isReactive(raw.rows[0])).toBe(false);
+      // Mutating a moved item must still be reactive
+      state.rows[0].n = 5;
+      await nextTick();
+      expect(component.update).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  describe('collections', () => {
+    it('should trigger update on Map set and delete', async () => {
+      const component = createMockComponent();
+      const state = createReactive(component, {
+        cache: new Map<number, string>(),
+      });
+
+      state.cache.set(1, 'one');
+      await nextTick();
+      expect(component.update).toHaveBeenCalledTimes(1);
+      expect(state.cache.get(1)).toBe('one');
+      expect(state.cache.size).toBe(1);
+
+      state.cache.delete(1);
+      await nextTick();
       expect(component.update).toHaveBeenCalledTimes(2);
+      expect(state.cache.has(1)).toBe(false);
+    });
+
+    it('should not trigger update when Map value is unchanged', async () => {
+      const component = createMockComponent();
+      const state = createReactive(component, {
+        cache: new Map([[1, 'one']]),
+      });
+
+      state.cache.set(1, 'one');
+      state.cache.delete(2);
+
+      await nextTick();
+      expect(component.update).not.toHaveBeenCalled();
+    });
+
+    it('should trigger update on Set add, delete and clear', async () => {
+      const component = createMockComponent();
+      const state = createReactive(component, { tags: new Set<string>() });
+
+      state.tags.add('x');
+      state.tags.add('x');
+      await nextTick();
+      expect(component.update).toHaveBeenCalledTimes(1);
+      expect(state.tags.has('x')).toBe(true);
+
+      state.tags.delete('x');
+      await nextTick();
+      expect(component.update).toHaveBeenCalledTimes(2);
+
+      state.tags.add('y');
+      await nextTick();
+      state.tags.clear();
+      await nextTick();
+      expect(component.update).toHaveBeenCalledTimes(4);
+      expect(state.tags.size).toBe(0);
+
+      // Clearing an empty set is a no-op
+      state.tags.clear();
+      await nextTick();
+      expect(component.update).toHaveBeenCalledTimes(4);
+    });
+
+    it('should return chainable proxies from set and add', async () => {
+      const component = createMockComponent();
+      const state = createReactive(component, {
+        cache: new Map<string, number>(),
+        tags: new Set<string>(),
+      });
+
+      state.cache.set('a', 1).set('b', 2);
+      state.tags.add('a').add('b');
+
+      await nextTick();
+      expect(component.update).toHaveBeenCalledTimes(1);
+      expect([...state.cache.keys()]).toEqual(['a', 'b']);
+      expect([...state.tags]).toEqual(['a', 'b']);
+    });
+
+    it('should return reactive values from Map get', async () => {
+      const component = createMockComponent();
+      const state = createReactive(component, {
+        users: new Map([[1, { name: 'John' }]]),
+      });
+
+      state.users.get(1)!.name = 'Jane';
+
+      await nextTick();
+      expect(component.update).toHaveBeenCalledTimes(1);
+      expect(state.users.get(1)!.name).toBe('Jane');
+    });
+
+    it('should return reactive values when iterating', async () => {
+      const component = createMockComponent();
+      const state = createReactive(component, {
+        users: new Map([[1, { name: 'John' }]]),
+        items: new Set([{ done: false }]),
+      });
+
+      for (const [, user] of state.users) {
+        user.name = 'Jane';
+      }
+      await nextTick();
+      for (const user of state.users.values()) {
+        expect(user.name).toBe('Jane');
+      }
+      state.users.forEach((user) => {
+        user.name = 'Bob';
+      });
+      await nextTick();
+      for (const item of state.items) {
+        item.done = true;
+      }
+
+      await nextTick();
+      expect(component.update).toHaveBeenCalledTimes(3);
+      expect([...state.users.keys()]).toEqual([1]);
+      expect([...state.items.entries()][0][0].done).toBe(true);
+    });
+
+    it('should support WeakMap and WeakSet', async () => {
+      const component = createMockComponent();
+      const key = { id: 1 };
+      const state = createReactive(component, {
+        meta: new WeakMap<object, string>(),
+        seen: new WeakSet<object>(),
+      });
+
+      state.meta.set(key, 'first');
+      state.seen.add(key);
+
+      await nextTick();
+      expect(component.update).toHaveBeenCalledTimes(1);
+      expect(state.meta.get(key)).toBe('first');
+      expect(state.seen.has(key)).toBe(true);
+
+      state.meta.delete(key);
+      state.seen.delete(key);
+
+      await nextTick();
+      expect(component.update).toHaveBeenCalledTimes(2);
+      expect(state.seen.has(key)).toBe(false);
+    });
+
+    it('should store raw objects when adding reactive values', async () => {
+      const component = createMockComponent();
+      const state = createReactive(component, {
+        item: { id: 1 },
+        selected: new Set<{ id: number }>(),
+      });
+
+      state.selected.add(state.item);
+
+      expect(state.selected.has(state.item)).toBe(true);
+      await nextTick();
+      expect(component.update).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('createShallowReactive', () => {
+    it('should trigger update on top-level changes', async () => {
+      const component = createMockComponent();
+      const state = createShallowReactive(component, { data: { n: 1 } });
+
+      state.data = { n: 2 };
+
+      await nextTick();
+      expect(component.update).toHaveBeenCalledTimes(1);
+    });
+
+    it('should not make nested objects reactive', async () => {
+      const component = createMockComponent();
+      const state = createShallowReactive(component, {
+        data: { items: [1] },
+      });
+
+      state.data.items.push(2);
+
+      await nextTick();
+      expect(component.update).not.toHaveBeenCalled();
+      expect(isReactive(state.data)).toBe(false);
+      expect(state.data.items).toEqual([1, 2]);
+    });
+
+    it('should be reactive itself', () => {
+      const component = createMockComponent();
+      const state = createShallowReactive(component, { count: 0 });
+
+      expect(isReactive(state)).toBe(true);
+      expect(isReadonly(state)).toBe(false);
+    });
+
+    it('should not share proxies with the deep variant', () => {
+      const component = createMockComponent();
+      const raw = { count: 0 };
+
+      expect(createShallowReactive(component, raw)).not.toBe(
+        createReactive(component, raw),
+      );
+    });
+  });
+
+  describe('createReadonly', () => {
+    it('should reject writes and warn', async () => {
+      const component = createMockComponent();
+      const consoleWarn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+      const view = createReadonly(component, { count: 0 });
+
+      (view as any).count = 1;
+      delete (view as any).count;
+
+      await nextTick();
+      expect(view.count).toBe(0);
+      expect(component.update).not.toHaveBeenCalled();
+      expect(consoleWarn).toHaveBeenCalledWith(
+        '[riot-composables] Set operation on key "count" failed: target is readonly',
+      );
+      expect(consoleWarn).toHaveBeenCalledWith(
+        '[riot-composables] Delete operation on key "count" failed: target is readonly',
+      );
+
+      consoleWarn.mockRestore();
+    });
+
+    it('should make nested objects and arrays readonly', () => {
+      const component = createMockComponent();
+      const consoleWarn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+      const view = createReadonly(component, {
+        user: { name: 'John' },
+        items: [1, 2],
+      });
+
+      (view.user as any).name = 'Jane';
+      (view.items as any).push(3);
+
+      expect(view.user.name).toBe('John');
+      expect(view.items).toEqual([1, 2]);
+      expect(isReadonly(view.user)).toBe(true);
+      expect(consoleWarn).toHaveBeenCalled();
+
+      consoleWarn.mockRestore();
+    });
+
+    it('should reject collection mutations', () => {
+      const component = createMockComponent();
+      const consoleWarn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+      const view = createReadonly(component, {
+        tags: new Set(['a']),
+        cache: new Map([['a', 1]]),
+      });
+
+      (view.tags as Set<string>).add('b');
+      (view.tags as Set<string>).clear();
+      (view.cache as Map<string, number>).set('a', 2);
+      expect((view.cache as Map<string, number>).delete('a')).toBe(false);
+
+      expect([...view.tags]).toEqual(['a']);
+      expect(view.cache.get('a')).toBe(1);
+      expect(consoleWarn).toHaveBeenCalledTimes(4);
+
+      consoleWarn.mockRestore();
+    });
+
+    it('should reflect changes made through the reactive source', () => {
+      const component = createMockComponent();
+      const state = createReactive(component, { user: { name: 'John' } });
+      const view = createReadonly(component, state);
+
+      state.user.name = 'Jane';
+
+      expect(view.user.name).toBe('Jane');
+      expect(toRaw(view)).toBe(toRaw(state));
+    });
+
+    it('should report readonly but not reactive', () => {
+      const component = createMockComponent();
+      const view = createReadonly(component, { count: 0 });
+
+      expect(isReadonly(view)).toBe(true);
+      expect(isReactive(view)).toBe(false);
+      expect(isReadonly({})).toBe(false);
+    });
+
+    it('should return the same readonly proxy for a source', () => {
+      const component = createMockComponent();
+      const state = createReactive(component, { count: 0 });
+
+      const view = createReadonly(component, state);
+
+      expect(createReadonly(component, state)).toBe(view);
+      expect(createReactive(component, view)).toBe(view);
+    });
+
+    it('should not warn in production', () => {
+      const component = createMockComponent();
+      const consoleWarn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+      const originalEnv = process.env.NODE_ENV;
+      process.env.NODE_ENV = 'production';
+
+      const view = createReadonly(component, { count: 0 });
+      (view as any).count = 1;
+
+      expect(consoleWarn).not.toHaveBeenCalled();
+
+      process.env.NODE_ENV = originalEnv;
+      consoleWarn.mockRestore();
+    });
+  });
+
+  describe('createShallowReadonly', () => {
+    it('should reject top-level writes only', () => {
+      const component = createMockComponent();
+      const consoleWarn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+      const view = createShallowReadonly(component, { user: { name: 'John' } });
+
+      (view as any).user = { name: 'Jane' };
+      view.user.name = 'Bob';
+
+      expect(view.user.name).toBe('Bob');
+      expect(isReadonly(view)).toBe(true);
+      expect(isReadonly(view.user)).toBe(false);
+      expect(consoleWarn).toHaveBeenCalledTimes(1);
+
+      consoleWarn.mockRestore();
+    });
+  });
+
+  describe('proxy identity', () => {
+    it('should return the same proxy for repeated nested reads', () => {
+      const component = createMockComponent();
+      const state = createReactive(component, {
+        user: { name: 'John' },
+        items: [{ id: 1 }],
+        tags: new Set<string>(),
+      });
+
+      expect(state.user).toBe(state.user);
+      expect(state.items).toBe(state.items);
+      expect(state.items[0]).toBe(state.items[0]);
+      expect(state.tags).toBe(state.tags);
+    });
+
+    it('should return the same proxy when wrapping a target twice', () => {
+      const component = createMockComponent();
+      const raw = { count: 0 };
+
+      const first = createReactive(component, raw);
+      const second = createReactive(component, raw);
+
+      expect(first).toBe(second);
+    });
+
+    it('should return the existing proxy when passed a reactive object', () => {
+      const component = createMockComponent();
+      const state = createReactive(component, { count: 0 });
+
+      expect(createReactive(component, state)).toBe(state);
+    });
+
+    it('should keep Map values identical across reads', () => {
+      const component = createMockComponent();
+      const state = createReactive(component, {
+        users: new Map([[1, { name: 'John' }]]),
+      });
+
+      expect(state.users.get(1)).toBe(state.users.get(1));
+      expect([...state.users.values()][0]).toBe(state.users.get(1));
     });
   });
 
@@ -127,9 +661,26 @@ describe('core/reactive', () => {
       expect(isReactive([])).toBe(false);
     });
 
-    it('should return true for reactive objects with __isReactive__ property', () => {
-      const reactive = { __isReactive__: true };
-      expect(isReactive(reactive)).toBe(true);
+    it('should return true for reactive proxies', () => {
+      const component = createMockComponent();
+      const state = createReactive(component, {
+        user: { name: 'John' },
+        items: [1],
+        cache: new Map(),
+      });
+
+      expect(isReactive(state)).toBe(true);
+      expect(isReactive(state.user)).toBe(true);
+      expect(isReactive(state.items)).toBe(true);
+      expect(isReactive(state.cache)).toBe(true);
+    });
+
+    it('should return false for raw objects behind a proxy', () => {
+      const component = createMockComponent();
+      const state = createReactive(component, { user: { name: 'John' } });
+
+      expect(isReactive(toRaw(state))).toBe(false);
+      expect(isReactive(toRaw(state).user)).toBe(false);
     });
   });
 
@@ -142,29 +693,88 @@ describe('core/reactive', () => {
       expect(toRaw(undefined)).toBe(undefined);
     });
 
-    it('should return a shallow copy of objects', () => {
+    it('should return non-reactive objects as-is', () => {
       const original = { a: 1, b: 2 };
-      const raw = toRaw(original);
 
-      expect(raw).toEqual(original);
-      expect(raw).not.toBe(original); // Different reference
+      expect(toRaw(original)).toBe(original);
     });
 
-    it('should return a shallow copy of arrays', () => {
-      const original = [1, 2, 3];
-      const raw = toRaw(original);
+    it('should return the original object of a reactive proxy', () => {
+      const component = createMockComponent();
+      const original = { user: { name: 'John' }, items: [1, 2, 3] };
+      const state = createReactive(component, original);
+
+      expect(toRaw(state)).toBe(original);
+      expect(toRaw(state.user)).toBe(original.user);
+      expect(toRaw(state.items)).toBe(original.items);
+    });
+
+    it('should not trigger updates when mutating the raw object', async () => {
+      const component = createMockComponent();
+      const state = createReactive(component, { count: 0 });
+
+      toRaw(state).count = 5;
+
+      await nextTick();
+      expect(component.update).not.toHaveBeenCalled();
+      expect(state.count).toBe(5);
+    });
+
+    it('should store raw values when assigning reactive objects', () => {
+      const component = createMockComponent();
+      const original = { a: { id: 1 }, b: null as { id: number } | null };
+      const state = createReactive(component, original);
+
+      state.b = state.a;
+
+      expect(original.b).toBe(original.a);
+      expect(isReactive(original.b)).toBe(false);
+    });
+  });
+
+  describe('markRaw', () => {
+    it('should return the same object', () => {
+      const date = new Date();
 
-      expect(raw).toEqual(original);
-      expect(raw).not.toBe(original); // Different reference
+      expect(markRaw(date)).toBe(date);
     });
 
-    it('should handle nested objects', () => {
-      const original = { user: { name: 'John' } };
-      const raw = toRaw(original);
+    it('should not proxy marked objects in reactive state', () => {
+      const component = createMockComponent();
+      const date = markRaw(new Date(0));
+      const state = createReactive(component, { date });
+
+      expect(state.date).toBe(date);
+      expect(isReactive(state.date)).toBe(false);
+      expect(state.date.getTime()).toBe(0);
+    });
+
+    it('should not trigger updates for mutations of marked objects', async () => {
+      const component = createMockComponent();
+      const widget = markRaw({ size: 1 });
+      const state = createReactive(component, { widget });
+
+      state.widget.size = 2;
+
+      await nextTick();
+      expect(component.update).not.toHaveBeenCalled();
+    });
+
+    it('should still trigger updates when replacing a marked object', async () => {
+      const component = createMockComponent();
+      const state = createReactive(component, { widget: markRaw({ size: 1 }) });
+
+      state.widget = markRaw({ size: 2 });
+
+      await nextTick();
+      expect(component.update).toHaveBeenCalledTimes(1);
+    });
+
+    it('should return a marked object passed to createReactive as-is', () => {
+      const component = createMockComponent();
+      const widget = markRaw({ size: 1 });
 
-      expect(raw).toEqual(original);
-      expect(raw).not.toBe(original);
-      expect(raw.user).toBe(original.user); // Shallow copy
+      expect(createReactive(component, widget)).toBe(widget);
     });
   });
 });
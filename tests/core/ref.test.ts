@@ -0,0 +1,219 @@
+import { describe, it, expect, vi } from 'vitest';
+import {
+  createRef,
+  isRef,
+  unref,
+  toRef,
+  toRefs,
+} from '../../src/core/ref';
+import { createReactive, isReactive } from '../../src/core/reactive';
+import { createComputed } from '../../src/core/computed';
+import { nextTick } from '../../src/core/scheduler';
+import type { EnhancedComponent } from '../../src/types';
+
+// Helper to create a mock component
+function createMockComponent(): EnhancedComponent {
+  return {
+    update: vi.fn(),
+    __composables__: {
+      states: new Map(),
+      effects: new Map(),
+      watchers: new Map(),
+      computed: new Map(),
+      cleanups: [],
+    },
+  } as any;
+}
+
+describe('core/ref', () => {
+  describe('createRef', () => {
+    it('should hold the initial value', () => {
+      const component = createMockComponent();
+      const count = createRef(component, 0);
+
+      expect(count.value).toBe(0);
+    });
+
+    it('should schedule an update when the value changes', async () => {
+      const component = createMockComponent();
+      const count = createRef(component, 0);
+
+      count.value = 1;
+
+      expect(count.value).toBe(1);
+      await nextTick();
+      expect(component.update).toHaveBeenCalledTimes(1);
+    });
+
+    it('should not update when the same value is assigned', async () => {
+      const component = createMockComponent();
+      const count = createRef(component, 0);
+      const label = createRef(component, NaN);
+
+      count.value = 0;
+      label.value = NaN;
+
+      await nextTick();
+      expect(component.update).not.toHaveBeenCalled();
+    });
+
+    it('should make object values deeply reactive', async () => {
+      const component = createMockComponent();
+      const user = createRef(component, { name: 'John', tags: ['a'] });
+
+      expect(isReactive(user.value)).toBe(true);
+
+      user.value.tags.push('b');
+
+      await nextTick();
+      expect(component.update).toHaveBeenCalledTimes(1);
+    });
+
+    it('should make newly assigned objects reactive', () => {
+      const component = createMockComponent();
+      const user = createRef<{ name: string } | null>(component, null);
+
+      user.value = { name: 'Jane' };
+
+      expect(isReactive(user.value)).toBe(true);
+    });
+
+    it('should not update when assigning the reactive version of its value', async () => {
+      const component = createMockComponent();
+      const user = createRef(component, { name: 'John' });
+
+      user.value = user.value;
+
+      await nextTick();
+      expect(component.update).not.toHaveBeenCalled();
+    })
+    it('should keep one state entry for all its values', () => {
+      const component = createMockComponent();
+      const states = component.__composables__.states;
+      const user = createRef<{ name: string } | null>(component, {
+        name: 'John',
+      });
+
+      for (let i = 0; i < 10; i++) {
+        user.value = { name: `User ${i}` };
+      }
+      expect(states.size).toBe(1);
+      expect([...states.values()]).toEqual([user.value]);
+
+      user.value = null;
+      expect(states.size).toBe(0);
+    });
+  });
+
+  describe('isRef', () => {
+    it('should recognize refs', () => {
+      const component = createMockComponent();
+
+      expect(isRef(createRef(component, 1))).toBe(true);
+      expect(isRef(createComputed(component, () => 1))).toBe(true);
+      expect(isRef(toRef(createReactive(component, { a: 1 }), 'a'))).toBe(true);
+    });
+
+    it('should reject non-refs', () => {
+      expect(isRef(1)).toBe(false);
+      expect(isRef(null)).toBe(false);
+      expect(isRef({ value: 1 })).toBe(false);
+    });
+  });
+
+  describe('unref', () => {
+    it('should unwrap refs and pass other values through', () => {
+      const component = createMockComponent();
+      const obj = { value: 1 };
+
+      expect(unref(createRef(component, 1))).toBe(1);
+      expect(unref(createComputed(component, () => 2))).toBe(2);
+      expect(unref(3)).toBe(3);
+      expect(unref(obj)).toBe(obj);
+    });
+  });
+
+  describe('toRef', () => {
+    it('should read and write the source property', async () => {
+      const component = createMockComponent();
+      const state = createReactive(component, { count: 0 });
+      const count = toRef(state, 'count');
+
+      count.value = 5;
+      expect(state.count).toBe(5);
+
+      state.count = 6;
+      expect(count.value).toBe(6);
+
+      await nextTick();
+      expect(component.update).toHaveBeenCalledTimes(1);
+    });
+
+    it('should return the default while the property is undefined', () => {
+      const component = createMockComponent();
+      const state = createReactive<{ name?: string }>(component, {});
+      const name = toRef(state, 'name', 'anonymous');
+
+      expect(name.value).toBe('anonymous');
+
+      state.name = 'John';
+      expect(name.value).toBe('John');
+    });
+
+    it('should return an existing ref stored on the property', () => {
+      const component = createMockComponent();
+      const count = createRef(component, 0);
+
+      expect(toRef({ count }, 'count')).toBe(count);
+    });
+  });
+
+  describe('toRefs', () => {
+    it('should convert every property into a bound ref', async () => {
+      const component = createMockComponent();
+      const state = createReactive(component, { x: 0, y: 0 });
+
+      const { x, y } = toRefs(state);
+      x.value = 10;
+      y.value = 20;
+
+      expect(state).toEqual({ x: 10, y: 20 });
+      await nextTick();
+      expect(component.update).toHaveBeenCalledTimes(1);
+    });
+
+    it('should keep refs in sync with the source', () => {
+      const component = createMockComponent();
+      const state = createReactive(component, { name: 'John' });
+      const refs = toRefs(state);
+
+      state.name = 'Jane';
+
+      expect(refs.name.value).toBe('Jane');
+    });
+
+    it('should convert arrays into arrays of refs', () => {
+      const component = createMockComponent();
+      const state = createReactive(component, ['a', 'b']);
+
+      const refs = toRefs(state);
+
+      expect(Array.isArray(refs)).toBe(true);
+      expect(refs[1].value).toBe('b');
+    });
+
+    it('should warn when given a plain object', () => {
+      const consoleWarn = vi
+        .spyOn(console, 'warn')
+        .mockImplementation(() => {});
+
+      toRefs({ a: 1 });
+
+      expect(consoleWarn).toHaveBeenCalledWith(
+        '[riot-composables] toRefs() expects a reactive object but received a plain one',
+      );
+
+      consoleWarn.mockRestore();
+    });
+  });
+});
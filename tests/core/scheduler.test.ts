@@ -0,0 +1,270 @@
+import { describe, it, expect, vi } from 'vitest';
+import {
+  queueUpdate,
+  queueJob,
+  dequeueUpdate,
+  nextTick,
+} from '../../src/core/scheduler';
+import { createReactive } from '../../src/core/reactive';
+import type { EnhancedComponent } from '../../src/types';
+
+// Helper to create a mock component
+function createMockComponent(): EnhancedComponent {
+  return {
+    update: vi.fn(),
+    __composables__: {
+      states: new Map(),
+      effects: new Map(),
+      watchers: new Map(),
+      computed: new Map(),
+      cleanups: [],
+    },
+  } as any;
+}
+
+describe('core/scheduler', () => {
+  describe('queueUpdate', () => {
+    it('should update the component in a microtask', async () => {
+      const component = createMockComponent();
+
+      queueUpdate(component);
+
+      expect(component.update).not.toHaveBeenCalled();
+      await Promise.resolve();
+      expect(component.update).toHaveBeenCalledTimes(1);
+    });
+
+    it('should de-duplicate queued components', async () => {
+      const component = createMockComponent();
+
+      queueUpdate(component);
+      queueUpdate(component);
+      queueUpdate(component);
+
+      await nextTick();
+      expect(component.update).toHaveBeenCalledTimes(1);
+    });
+
+    it('should update each queued component once in queue order', async () => {
+      const calls: string[] = [];
+      const first = createMockComponent();
+      const second = createMockComponent();
+      first.update = vi.fn(() => calls.push('first')) as any;
+      second.update = vi.fn(() => calls.push('second')) as any;
+
+      queueUpdate(first);
+      queueUpdate(second);
+      queueUpdate(first);
+
+      await nextTick();
+      expect(calls).toEqual(['first', 'second']);
+    });
+
+    it('should coalesce mutations across reactive states', async () => {
+      const component = createMockComponent();
+      const a = createReactive(component, { count: 0 });
+      const b = createReactive(component, { items: [] as number[] });
+
+      a.count++;
+      a.count++;
+      b.items.push(1);
+      delete (a as any).count;
+
+      await nextTick();
+      expect(component.update).toHaveBeenCalledTimes(1);
+    });
+
+    it('should flush components queued during the flush', async () => {
+      const component = createMockComponent();
+      let runs = 0;
+      component.update = vi.fn(() => {
+        runs++;
+        if (runs === 1) {
+          queueUpdate(component);
+        }
+      }) as any;
+
+      queueUpdate(component);
+
+      await nextTick();
+      expect(component.update).toHaveBeenCalledTimes(2);
+    });
+
+    it('should stop components that keep re-queueing themselves', async () => {
+      const component = createMockComponent();
+      const consoleError = vi
+        .spyOn(console, 'error')
+        .mockImplementation(() => {});
+      component.update = vi.fn(() => queueUpdate(component)) as any;
+
+      queueUpdate(component);
+
+      await nextTick();
+      expect(component.update).toHaveBeenCalledTimes(100);
+      expect(consoleError).toHaveBeenCalledWith(
+        expect.stringContaining('Maximum recursive updates exceeded'),
+      );
+
+      consoleError.mockRestore();
+    });
+
+    it('should keep flushing after a component update throws', async () => {
+      const consoleError = vi
+        .spyOn(console, 'error')
+        .mockImplementation(() => {});
+      const failing = createMockComponent();
+      const other = createMockComponent();
+      failing.update = vi.fn(() => {
+        throw new Error('Update error');
+      }) as any;
+
+      queueUpdate(failing);
+      queueUpdate(other);
+
+      await nextTick();
+      expect(other.update).toHaveBeenCalledTimes(1);
+      expect(consoleError).toHaveBeenCalledWith(
+        '[riot-composables] Error during component update:',
+        expect.any(Error),
+      );
+
+      consoleError.mockRestore();
+    });
+  });
+
+  describe('unmounted components', () => {
+    it('should not update components unmounted before or after queueing', async () => {
+      const before = createMockComponent();
+      const after = createMockComponent();
+      before.__composables__.unmounted = true;
+
+      queueUpdate(before);
+      queueUpdate(after);
+      after.__composables__.unmounted = true;
+
+      await nextTick();
+      expect(before.update).not.toHaveBeenCalled();
+      expect(after.update).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('queueJob', () => {
+    it('should run queued jobs once before component updates', async () => {
+      const calls: string[] = [];
+      const component = createMockComponent();
+      component.update = vi.fn(() => calls.push('update')) as any;
+      const job = vi.fn(() => calls.push('job'));
+
+      queueUpdate(component);
+      queueJob(job);
+      queueJob(job);
+
+      await nextTick();
+      expect(calls).toEqual(['job', 'update']);
+    });
+
+    it('should run jobs queued by a component update in the same flush', async () => {
+      const component = createMockComponent();
+      const job = vi.fn();
+      component.update = vi.fn(() => queueJob(job)) as any;
+
+      queueUpdate(component);
+
+      await nextTick();
+      expect(job).toHaveBeenCalledTimes(1);
+    });
+
+    it('should stop jobs that keep re-queueing each other', async () => {
+      const consoleError = vi
+        .spyOn(console, 'error')
+        .mockImplementation(() => {});
+      const component = createMockComponent();
+      const state = createReactive(component, { a: 0, b: 0 });
+      const updateB = vi.fn(() => {
+        state.b = state.a + 1;
+        queueJob(updateA);
+      });
+      const updateA = vi.fn(() => {
+        state.a = state.b + 1;
+        queueJob(updateB);
+      });
+
+      queueJob(updateB);
+
+      await nextTick();
+      expect(updateB).toHaveBeenCalledTimes(100);
+      expect(updateA).toHaveBeenCalledTimes(100);
+      expect(consoleError).toHaveBeenCalledWith(
+        expect.stringContaining('Maximum recursive job runs exceeded'),
+      );
+      expect(component.update).toHaveBeenCalledTimes(1);
+
+      consoleError.mockRestore();
+    });
+
+    it('should keep flushing after a job throws', async () => {
+      const consoleError = vi
+        .spyOn(console, 'error')
+        .mockImplementation(() => {});
+      const component = createMockComponent();
+      const error = new Error('Job error');
+      const next = vi.fn();
+
+      queueJob(() => {
+        throw error;
+      });
+      queueJob(next);
+      queueUpdate(component);
+
+      await expect(nextTick()).resolves.toBeUndefined();
+      expect(next).toHaveBeenCalledTimes(1);
+      expect(component.update).toHaveBeenCalledTimes(1);
+      expect(consoleError).toHaveBeenCalledWith(
+        '[riot-composables] Error in scheduler job:',
+        error,
+      );
+
+      consoleError.mockRestore();
+    });
+  });
+
+  describe('dequeueUpdate', () => {
+    it('should remove a queued component', async () => {
+      const component = createMockComponent();
+
+      queueUpdate(component);
+      dequeueUpdate(component);
+
+      await nextTick();
+      expect(component.update).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('nextTick', () => {
+    it('should resolve when nothing is queued', async () => {
+      await expect(nextTick()).resolves.toBeUndefined();
+    });
+
+    it('should resolve after the flush', async () => {
+      const component = createMockComponent();
+      const state = createReactive(component, { count: 0 });
+
+      state.count = 1;
+      await nextTick();
+
+      expect(component.update).toHaveBeenCalledTimes(1);
+    });
+
+    it('should run the callback after the flush and resolve its result', async () => {
+      const component = createMockComponent();
+
+      queueUpdate(component);
+      const result = await nextTick(() => {
+        expect(component.update).toHaveBeenCalledTimes(1);
+        return 'done';
+      });
+
+      expect(result).toBe('done');
+    });
+  });
+});
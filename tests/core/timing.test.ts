@@ -0,0 +1,144 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { debounce, throttle } from '../../src/core/timing';
+
+describe('core/timing', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  describe('debounce', () => {
+    it('should call once with the last arguments after the wait', () => {
+      const fn = vi.fn();
+      const debounced = debounce(fn, 100);
+
+      debounced(1);
+      vi.advanceTimersByTime(50);
+      debounced(2);
+      vi.advanceTimersByTime(99);
+      expect(fn).not.toHaveBeenCalled();
+
+      vi.advanceTimersByTime(1);
+      expect(fn).toHaveBeenCalledTimes(1);
+      expect(fn).toHaveBeenCalledWith(2);
+    });
+
+    it('should call on the leading edge', () => {
+      const fn = vi.fn();
+      const debounced = debounce(fn, 100, { leading: true });
+
+      debounced(1);
+      expect(fn).toHaveBeenCalledWith(1);
+
+      vi.advanceTimersByTime(100);
+      expect(fn).toHaveBeenCalledTimes(1);
+
+      debounced(2);
+      debounced(3);
+      vi.advanceTimersByTime(100);
+      expect(fn.mock.calls).toEqual([[1], [2], [3]]);
+    });
+
+    it('should not call on the trailing edge when disabled', () => {
+      const fn = vi.fn();
+      const debounced = debounce(fn, 100, { leading: true, trailing: false });
+
+      debounced(1);
+      debounced(2);
+      vi.advanceTimersByTime(100);
+
+      expect(fn.mock.calls).toEqual([[1]]);
+    });
+
+    it('should call at least every maxWait while calls keep coming', () => {
+      const fn = vi.fn();
+      const debounced = debounce(fn, 100, { maxWait: 250 });
+
+      for (let i = 1; i <= 6; i++) {
+        debounced(i);
+        vi.advanceTimersByTime(50);
+      }
+      expect(fn.mock.calls).toEqual([[5]]);
+
+      vi.advanceTimersByTime(100);
+      expect(fn.mock.calls).toEqual([[5], [6]]);
+    });
+
+    it('should cancel and flush the pending call', () => {
+      const fn = vi.fn();
+      const debounced = debounce(fn, 100);
+
+      debounced(1);
+      expect(debounced.pending()).toBe(true);
+      debounced.cancel();
+      expect(debounced.pending()).toBe(false);
+      vi.advanceTimersByTime(100);
+      expect(fn).not.toHaveBeenCalled();
+
+      debounced(2);
+      debounced.flush();
+      expect(fn).toHaveBeenCalledWith(2);
+      vi.advanceTimersByTime(100);
+      expect(fn).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('throttle', () => {
+    it('should call at most once per interval', () => {
+      const fn = vi.fn();
+      const throttled = throttle(fn, 100);
+
+      throttled(1);
+      throttled(2);
+      throttled(3);
+      expect(fn.mock.calls).toEqual([[1]]);
+
+      vi.advanceTimersByTime(100);
+      expect(fn.mock.calls).toEqual([[1], [3]]);
+
+      throttled(4);
+      vi.advanceTimersByTime(50);
+      expect(fn.mock.calls).toEqual([[1], [3]]);
+
+      vi.advanceTimersByTime(50);
+      expect(fn.mock.calls).toEqual([[1], [3], [4]]);
+    });
+
+    it('should respect disabled leading and trailing edges', () => {
+      const trailingOnly = vi.fn();
+      const leadingOnly = vi.fn();
+      const a = throttle(trailingOnly, 100, { leading: false });
+      const b = throttle(leadingOnly, 100, { trailing: false });
+
+      a(1);
+      b(1);
+      a(2);
+      b(2);
+      expect(trailingOnly).not.toHaveBeenCalled();
+      expect(leadingOnly.mock.calls).toEqual([[1]]);
+
+      vi.advanceTimersByTime(100);
+      expect(trailingOnly.mock.calls).toEqual([[2]]);
+      expect(leadingOnly.mock.calls).toEqual([[1]]);
+    });
+
+    it('should cancel and flush the pending call', () => {
+      const fn = vi.fn();
+      const throttled = throttle(fn, 100);
+
+      throttled(1);
+      throttled(2);
+      throttled.flush();
+      expect(fn.mock.calls).toEqual([[1], [2]]);
+
+      throttled(3);
+      throttled(4);
+      throttled.cancel();
+      vi.advanceTimersByTime(100);
+      expect(fn.mock.calls).toEqual([[1], [2], [3]]);
+    });
+  });
+});
@@ -1,9 +1,16 @@
-import { describe, it, expect, vi } from 'vitest';
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
 import {
   createWatch,
   createWatchMultiple,
   createWatchObject,
+  createWatchEffect,
+  createDebouncedWatch,
+  createThrottledWatch,
+  checkWatcher,
 } from '../../src/core/watch';
+import { createReactive } from '../../src/core/reactive';
+import { createRef } from '../../src/core/ref';
+import { nextTick } from '../../src/core/scheduler';
 import type { EnhancedComponent } from '../../src/types';
 
 // Helper to create a mock component
@@ -174,19 +181,16 @@ describe('core/watch', () => {
       expect(watchData.oldValue).toBe(obj);
     });
 
-    it('should warn about deep watching', () => {
+    it('should detect nested mutations when deep', () => {
       const component = createMockComponent();
-      const consoleWarn = vi.spyOn(console, 'warn').mockImplementation(() => {});
-      const getter = () => ({ count: 5 });
+      const state = createReactive(component, { user: { name: 'John' } });
       const callback = vi.fn();
 
-      createWatchObject(component, getter, callback, { deep: true });
-
-      expect(consoleWarn).toHaveBeenCalledWith(
-        '[riot-composables] Deep watching is not yet implemented'
-      );
+      createWatchObject(component, () => state, callback, { deep: true });
+      state.user.name = 'Jane';
+      checkWatcher(Array.from(component.__composables__.watchers.values())[0]);
 
-      consoleWarn.mockRestore();
+      expect(callback).toHaveBeenCalledWith(state, { user: { name: 'John' } }, expect.any(Function));
     });
 
     it('should not warn when deep option is false', () => {
@@ -228,4 +232,818 @@ describe('core/watch', () => {
       expect(watchData.oldValue).toBe(obj);
     });
   });
+
+  describe('flush', () => {
+    it("should default to 'pre'", () => {
+      const component = createMockComponent();
+
+      createWatch(component, () => 1, vi.fn());
+
+      const watchData = Array.from(component.__composables__.watchers.values())[0];
+      expect(watchData.flush).toBe('pre');
+    });
+
+    it("should call 'sync' callbacks as soon as a reactive source changes", () => {
+      const component = createMockComponent();
+      const state = createReactive(component, { count: 0 });
+      const callback = vi.fn();
+
+      createWatch(component, () => state.count, callback, { flush: 'sync' });
+
+      state.count = 1;
+      expect(callback).toHaveBeenCalledWith(1, 0, expect.any(Function));
+
+      state.count = 2;
+      expect(callback).toHaveBeenCalledWith(2, 1, expect.any(Function));
+      expect(callback).toHaveBeenCalledTimes(2);
+    });
+
+    it("should stop 'sync' watchers when cleanups run", () => {
+      const component = createMockComponent();
+      const state = createReactive(component, { count: 0 });
+      const callback = vi.fn();
+
+      createWatch(component, () => state.count, callback, { flush: 'sync' });
+      component.__composables__.cleanups.slice().forEach((cleanup) => cleanup());
+
+      state.count = 1;
+      expect(callback).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('equals', () => {
+    it("should not call 'deep' callbacks when the value keeps its structure", () => {
+      const component = createMockComponent();
+      const state = createReactive(component, { tags: ['a'] });
+      const callback = vi.fn();
+
+      createWatch(component, () => ({ tags: [...state.tags] }), callback, {
+        flush: 'sync',
+        equals: 'deep',
+      });
+
+      state.tags[0] = 'a';
+      expect(callback).not.toHaveBeenCalled();
+
+      state.tags.push('b');
+      expect(callback).toHaveBeenCalledWith({ tags: ['a', 'b'] }, { tags: ['a'] }, expect.any(Function));
+    });
+
+    it('should use a custom comparator', () => {
+      const component = createMockComponent();
+      const state = createReactive(component, { name: 'Riot' });
+      const callback = vi.fn();
+
+      createWatch(component, () => state.name, callback, {
+        flush: 'sync',
+        equals: (a: string, b: string) => a.toLowerCase() === b.toLowerCase(),
+      });
+
+      state.name = 'RIOT';
+      expect(callback).not.toHaveBeenCalled();
+
+      state.name = 'Vue';
+      expect(callback).toHaveBeenCalledWith('Vue', 'Riot', expect.any(Function));
+    });
+  });
+
+  describe('options', () => {
+    // Run the checks the plugin runs on update
+    const checkAll = (component: EnhancedComponent) =>
+      component.__composables__.watchers.forEach((watchData) =>
+        checkWatcher(watchData),
+      );
+
+    it('should call immediate callbacks right away', () => {
+      const component = createMockComponent();
+      const callback = vi.fn();
+
+      createWatch(component, () => 1, callback, { immediate: true });
+
+      expect(callback).toHaveBeenCalledWith(1, undefined, expect.any(Function));
+    });
+
+    it('should stop once watchers after the first callback', () => {
+      const component = createMockComponent();
+      const state = createReactive(component, { count: 0 });
+      const callback = vi.fn();
+
+      createWatch(component, () => state.count, callback, { once: true });
+
+      state.count = 1;
+      checkAll(component);
+      state.count = 2;
+      checkAll(component);
+
+      expect(callback).toHaveBeenCalledTimes(1);
+      expect(callback).toHaveBeenCalledWith(1, 0, expect.any(Function));
+      expect(component.__composables__.watchers.size).toBe(0);
+    });
+
+    it('should stop immediate once watchers right away', () => {
+      const component = createMockComponent();
+      const state = createReactive(component, { count: 0 });
+      const callback = vi.fn();
+
+      createWatch(component, () => state.count, callback, {
+        immediate: true,
+        once: true,
+        flush: 'sync',
+      });
+      state.count = 1;
+
+      expect(callback).toHaveBeenCalledTimes(1);
+      expect(callback).toHaveBeenCalledWith(0, undefined, expect.any(Function));
+      expect(component.__composables__.watchers.size).toBe(0);
+    });
+
+    it('should ignore nested mutations unless deep', () => {
+      const component = createMockComponent();
+      const state = createReactive(component, { items: [1] });
+      const callback = vi.fn();
+
+      createWatch(component, () => state.items, callback);
+      state.items.push(2);
+      checkAll(component);
+
+      expect(callback).not.toHaveBeenCalled();
+    });
+
+    it('should pass the live value and a snapshot of the old one when deep', () => {
+      const component = createMockComponent();
+      const state = createReactive(component, {
+        items: [{ done: false }],
+      });
+      const callback = vi.fn();
+
+      createWatch(component, () => state.items, callback, { deep: true });
+
+      state.items[0].done = true;
+      checkAll(component);
+      expect(callback).toHaveBeenCalledWith(state.items, [{ done: false }], expect.any(Function));
+
+      state.items.push({ done: false });
+      checkAll(component);
+      expect(callback).toHaveBeenLastCalledWith(state.items, [{ done: true }], expect.any(Function));
+      expect(callback).toHaveBeenCalledTimes(2);
+    });
+
+    it('should not call deep callbacks when nothing changed', () => {
+      const component = createMockComponent();
+      const state = createReactive(component, { user: { name: 'John' } });
+      const callback = vi.fn();
+
+      createWatch(component, () => state, callback, { deep: true });
+      state.user = { name: 'John' };
+      checkAll(component);
+
+      expect(callback).not.toHaveBeenCalled();
+    });
+
+    it('should detect mutations of nested collections when deep', () => {
+      const component = createMockComponent();
+      const state = createReactive(component, {
+        tags: new Set<string>(),
+        scores: new Map([['a', { value: 1 }]]),
+      });
+      const callback = vi.fn();
+
+      createWatch(component, () => state, callback, { deep: true });
+
+      state.tags.add('new');
+      checkAll(component);
+      expect(callback).toHaveBeenCalledTimes(1);
+      expect(callback.mock.calls[0][1].tags.size).toBe(0);
+
+      state.scores.get('a')!.value = 2;
+      checkAll(component);
+      expect(callback).toHaveBeenCalledTimes(2);
+      expect(callback.mock.calls[1][1].scores.get('a')).toEqual({ value: 1 });
+    });
+
+    it('should detect mutations of objects inside a Set when deep', () => {
+      const component = createMockComponent();
+      const state = createReactive(component, {
+        todos: new Set([{ text: 'Write tests', done: false }]),
+      });
+      const callback = vi.fn();
+
+      createWatch(component, () => state, callback, { deep: true });
+
+      for (const todo of state.todos) {
+        todo.done = true;
+      }
+      checkAll(component);
+
+      expect(callback).toHaveBeenCalledTimes(1);
+      expect([...callback.mock.calls[0][1].todos]).toEqual([
+        { text: 'Write tests', done: false },
+      ]);
+    });
+
+    it('should handle circular structures when deep', () => {
+      const component = createMockComponent();
+      const node: any = { value: 1 };
+      node.self = node;
+      const state = createReactive(component, { node });
+      const callback = vi.fn();
+
+      createWatch(component, () => state, callback, { deep: true });
+
+      state.node.value = 2;
+      checkAll(component);
+
+      const oldValue = callback.mock.calls[0][1];
+      expect(oldValue.node.value).toBe(1);
+      expect(oldValue.node.self).toBe(oldValue.node);
+    });
+
+    it('should track nested reads of sync deep watchers', () => {
+      const component = createMockComponent();
+      const state = createReactive(component, {
+        user: { address: { city: 'Rome' } },
+      });
+      const callback = vi.fn();
+
+      createWatch(component, () => state.user, callback, {
+        deep: true,
+        flush: 'sync',
+      });
+
+      state.user.address.city = 'Milan';
+      expect(callback).toHaveBeenCalledWith(
+        state.user,
+        { address: { city: 'Rome' } },
+        expect.any(Function),
+      );
+    });
+  });
+
+  describe('multiple sources', () => {
+    it('should call the callback once per check with tuples of values', () => {
+      const component = createMockComponent();
+      const state = createReactive(component, { query: 'a', page: 1 });
+      const callback = vi.fn();
+
+      createWatch(component, [() => state.query, () => state.page], callback);
+
+      state.query = 'b';
+      state.page = 2;
+      component.__composables__.watchers.forEach((watchData) =>
+        checkWatcher(watchData),
+      );
+
+      expect(callback).toHaveBeenCalledTimes(1);
+      expect(callback).toHaveBeenCalledWith(['b', 2], ['a', 1], expect.any(Function));
+    });
+
+    it('should accept refs as sources', () => {
+      const component = createMockComponent();
+      const count = createRef(component, 0);
+      const state = createReactive(component, { label: 'x' });
+      const callback = vi.fn();
+
+      createWatch(component, [count, () => state.label], callback, {
+        flush: 'sync',
+      });
+      count.value = 1;
+
+      expect(callback).toHaveBeenCalledWith([1, 'x'], [0, 'x'], expect.any(Function));
+    });
+
+    it('should compare each source with the equals option', () => {
+      const component = createMockComponent();
+      const state = createReactive(component, { filter: { tag: 'a' }, page: 1 });
+      const callback = vi.fn();
+
+      createWatch(component, [() => ({ ...state.filter }), () => state.page], callback, {
+        equals: 'shallow',
+        flush: 'sync',
+      });
+      state.page = 1;
+      state.filter.tag = 'a';
+      expect(callback).not.toHaveBeenCalled();
+
+      state.filter.tag = 'b';
+      expect(callback).toHaveBeenCalledTimes(1);
+    });
+
+    it('should accept a single ref as source', () => {
+      const component = createMockComponent();
+      const count = createRef(component, 0);
+      const callback = vi.fn();
+
+      createWatch(component, count, callback, { flush: 'sync' });
+      count.value = 1;
+
+      expect(callback).toHaveBeenCalledWith(1, 0, expect.any(Function));
+    });
+  });
+
+  describe('onCleanup', () => {
+    it('should call the registered cleanup before the next callback', () => {
+      const component = createMockComponent();
+      const state = createReactive(component, { count: 0 });
+      const calls: string[] = [];
+
+      createWatch(
+        component,
+        () => state.count,
+        (count, _, onCleanup) => {
+          calls.push(`run ${count}`);
+          onCleanup(() => calls.push(`cleanup ${count}`));
+        },
+        { flush: 'sync' },
+      );
+
+      state.count = 1;
+      state.count = 2;
+
+      expect(calls).toEqual(['run 1', 'cleanup 1', 'run 2']);
+    });
+
+    it('should call the registered cleanup when stopped', () => {
+      const component = createMockComponent();
+      const state = createReactive(component, { count: 0 });
+      const cleanup = vi.fn();
+
+      const stop = createWatch(
+        component,
+        () => state.count,
+        (_count, _old, onCleanup) => onCleanup(cleanup),
+        { flush: 'sync' },
+      );
+
+      state.count = 1;
+      expect(cleanup).not.toHaveBeenCalled();
+
+      stop();
+      stop();
+      expect(cleanup).toHaveBeenCalledTimes(1);
+    });
+
+    it('should call the cleanup of once watchers on unmount', () => {
+      const component = createMockComponent();
+      const state = createReactive(component, { count: 0 });
+      const cleanup = vi.fn();
+
+      createWatch(
+        component,
+        () => state.count,
+        (_count, _old, onCleanup) => onCleanup(cleanup),
+        { flush: 'sync', once: true },
+      );
+
+      state.count = 1;
+      expect(cleanup).not.toHaveBeenCalled();
+
+      component.__composables__.cleanups.slice().forEach((fn) => fn());
+      expect(cleanup).toHaveBeenCalledTimes(1);
+    });
+
+    it('should handle errors in cleanup', () => {
+      const component = createMockComponent();
+      const consoleError = vi.spyOn(console, 'error').mockImplementation(() => {});
+      const state = createReactive(component, { count: 0 });
+      const callback = vi.fn((_count: number, _old: number, onCleanup) =>
+        onCleanup(() => {
+          throw new Error('Cleanup error');
+        }),
+      );
+
+      createWatch(component, () => state.count, callback, { flush: 'sync' });
+      state.count = 1;
+      state.count = 2;
+
+      expect(consoleError).toHaveBeenCalledWith(
+        '[riot-composables] Error in watch cleanup:',
+        expect.any(Error)
+      );
+      expect(callback).toHaveBeenCalledTimes(2);
+
+      consoleError.mockRestore();
+    });
+  });
+
+  describe('stop handle', () => {
+    it('should remove the watcher', () => {
+      const component = createMockComponent();
+      const state = createReactive(component, { count: 0 });
+      const callback = vi.fn();
+
+      const stop = createWatch(component, () => state.count, callback, {
+        flush: 'sync',
+      });
+      stop();
+      stop();
+
+      state.count = 1;
+      expect(callback).not.toHaveBeenCalled();
+      expect(component.__composables__.watchers.size).toBe(0);
+      expect(component.__composables__.cleanups).toHaveLength(0);
+    });
+
+    it('should not accumulate cleanups when watchers are stopped', () => {
+      const component = createMockComponent();
+      const state = createReactive(component, { count: 0 });
+
+      for (let i = 0; i < 10; i++) {
+        createWatch(component, () => state.count, vi.fn())();
+        createWatchEffect(component, () => state.count)();
+      }
+
+      expect(component.__composables__.cleanups).toHaveLength(0);
+    });
+
+    it('should not call the callback while paused and catch up on resume', async () => {
+      const component = createMockComponent();
+      const state = createReactive(component, { count: 0 });
+      const callback = vi.fn();
+
+      const handle = createWatch(component, () => state.count, callback, {
+        flush: 'sync',
+      });
+
+      handle.pause();
+      state.count = 1;
+      state.count = 2;
+      expect(callback).not.toHaveBeenCalled();
+
+      handle.resume();
+      await nextTick();
+      expect(callback).toHaveBeenCalledTimes(1);
+      expect(callback).toHaveBeenCalledWith(2, 0, expect.any(Function));
+    });
+
+    it('should not resume a stopped watcher', async () => {
+      const component = createMockComponent();
+      const state = createReactive(component, { count: 0 });
+      const callback = vi.fn();
+
+      const handle = createWatch(component, () => state.count, callback);
+      handle.pause();
+      state.count = 1;
+      handle.stop();
+      handle.resume();
+
+      await nextTick();
+      expect(callback).not.toHaveBeenCalled();
+    });
+
+    it('should stop, pause and resume watch effects', async () => {
+      const component = createMockComponent();
+      const state = createReactive(component, { count: 0 });
+      const cleanup = vi.fn();
+      const effect = vi.fn(() => {
+        state.count;
+        return cleanup;
+      });
+
+      const handle = createWatchEffect(component, effect);
+
+      handle.pause();
+      state.count = 1;
+      await nextTick();
+      expect(effect).toHaveBeenCalledTimes(1);
+
+      handle.resume();
+      await nextTick();
+      expect(effect).toHaveBeenCalledTimes(2);
+
+      handle();
+      expect(cleanup).toHaveBeenCalledTimes(2);
+      expect(component.__composables__.effects.size).toBe(0);
+
+      state.count = 2;
+      await nextTick();
+      expect(effect).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  describe('createDebouncedWatch', () => {
+    beforeEach(() => {
+      vi.useFakeTimers();
+    });
+
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    it('should call the callback once changes settle', () => {
+      const component = createMockComponent();
+      const state = createReactive(component, { query: '' });
+      const callback = vi.fn();
+
+      createDebouncedWatch(component, () => state.query, callback, 300, {
+        flush: 'sync',
+      });
+
+      state.query = 'r';
+      state.query = 'ri';
+      vi.advanceTimersByTime(200);
+      state.query = 'riot';
+      vi.advanceTimersByTime(299);
+      expect(callback).not.toHaveBeenCalled();
+
+      vi.advanceTimersByTime(1);
+      expect(callback).toHaveBeenCalledTimes(1);
+      expect(callback).toHaveBeenCalledWith('riot', '', expect.any(Function));
+    });
+
+    it('should forward leading and maxWait options', () => {
+      const component = createMockComponent();
+      const state = createReactive(component, { count: 0 });
+      const callback = vi.fn();
+
+      createDebouncedWatch(component, () => state.count, callback, 100, {
+        flush: 'sync',
+        leading: true,
+        maxWait: 150,
+      });
+
+      state.count = 1;
+      expect(callback).toHaveBeenCalledWith(1, 0, expect.any(Function));
+
+      vi.advanceTimersByTime(80);
+      state.count = 2;
+      vi.advanceTimersByTime(80);
+      expect(callback).toHaveBeenLastCalledWith(2, 1, expect.any(Function));
+    });
+
+    it('should flush and cancel the pending callback', () => {
+      const component = createMockComponent();
+      const state = createReactive(component, { count: 0 });
+      const callback = vi.fn();
+
+      const handle = createDebouncedWatch(
+        component,
+        () => state.count,
+        callback,
+        100,
+        { flush: 'sync' },
+      );
+
+      state.count = 1;
+      expect(handle.pending()).toBe(true);
+      handle.flush();
+      expect(callback).toHaveBeenCalledWith(1, 0, expect.any(Function));
+
+      state.count = 2;
+      handle.cancel();
+      vi.advanceTimersByTime(100);
+      expect(callback).toHaveBeenCalledTimes(1);
+    });
+
+    it('should cancel the pending callback on unmount', () => {
+      const component = createMockComponent();
+      const state = createReactive(component, { count: 0 });
+      const callback = vi.fn();
+
+      createDebouncedWatch(component, () => state.count, callback, 100, {
+        flush: 'sync',
+      });
+
+      state.count = 1;
+      component.__composables__.cleanups.slice().forEach((fn) => fn());
+      vi.advanceTimersByTime(100);
+
+      expect(callback).not.toHaveBeenCalled();
+      expect(component.__composables__.watchers.size).toBe(0);
+    });
+
+    it('should cancel the pending callback when stopped', () => {
+      const component = createMockComponent();
+      const state = createReactive(component, { count: 0 });
+      const callback = vi.fn();
+
+      const stop = createDebouncedWatch(
+        component,
+        () => state.count,
+        callback,
+        100,
+        { flush: 'sync' },
+      );
+
+      state.count = 1;
+      stop();
+      vi.advanceTimersByTime(100);
+
+      expect(callback).not.toHaveBeenCalled();
+      expect(component.__composables__.watchers.size).toBe(0);
+      expect(component.__composables__.cleanups).toHaveLength(0);
+    });
+
+    it('should handle errors in the callback', () => {
+      const component = createMockComponent();
+      const consoleError = vi.spyOn(console, 'error').mockImplementation(() => {});
+      const state = createReactive(component, { count: 0 });
+
+      createDebouncedWatch(
+        component,
+        () => state.count,
+        () => {
+          throw new Error('Callback error');
+        },
+        100,
+        { flush: 'sync' },
+      );
+
+      state.count = 1;
+      vi.advanceTimersByTime(100);
+
+      expect(consoleError).toHaveBeenCalledWith(
+        '[riot-composables] Error in watch callback:',
+        expect.any(Error)
+      );
+
+      consoleError.mockRestore();
+    });
+  });
+
+  describe('createThrottledWatch', () => {
+    beforeEach(() => {
+      vi.useFakeTimers();
+    });
+
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    it('should call the callback at most once per interval', () => {
+      const component = createMockComponent();
+      const state = createReactive(component, { count: 0 });
+      const callback = vi.fn();
+
+      createThrottledWatch(component, () => state.count, callback, 100, {
+        flush: 'sync',
+      });
+
+      state.count = 1;
+      state.count = 2;
+      state.count = 3;
+      expect(callback).toHaveBeenCalledTimes(1);
+      expect(callback).toHaveBeenCalledWith(1, 0, expect.any(Function));
+
+      vi.advanceTimersByTime(100);
+      expect(callback).toHaveBeenCalledTimes(2);
+      expect(callback).toHaveBeenLastCalledWith(3, 1, expect.any(Function));
+    });
+
+    it('should watch multiple sources', () => {
+      const component = createMockComponent();
+      const state = createReactive(component, { x: 0, y: 0 });
+      const callback = vi.fn();
+
+      createThrottledWatch(component, [() => state.x, () => state.y], callback, 100, {
+        flush: 'sync',
+        leading: false,
+      });
+
+      state.x = 1;
+      state.y = 1;
+      vi.advanceTimersByTime(100);
+
+      expect(callback).toHaveBeenCalledTimes(1);
+      expect(callback).toHaveBeenCalledWith([1, 1], [0, 0], expect.any(Function));
+    });
+  });
+
+  describe('createWatchEffect', () => {
+    it('should run the effect immediately', () => {
+      const component = createMockComponent();
+      const effect = vi.fn();
+
+      createWatchEffect(component, effect);
+      expect(effect).toHaveBeenCalledTimes(1);
+      expect(component.__composables__.effects.size).toBe(1);
+    });
+
+    it('should re-run when a state read by the effect changes', async () => {
+      const component = createMockComponent();
+      const state = createReactive(component, { count: 0 });
+      const values: number[] = [];
+
+      createWatchEffect(component, () => {
+        values.push(state.count);
+      });
+
+      state.count = 1;
+      state.count = 2;
+      expect(values).toEqual([0]);
+
+      await nextTick();
+      expect(values).toEqual([0, 2]);
+    });
+
+    it('should not re-run when unrelated state changes', async () => {
+      const component = createMockComponent();
+      const state = createReactive(component, { count: 0, other: 0 });
+      const effect = vi.fn(() => {
+        state.count;
+      });
+
+      createWatchEffect(component, effect);
+      state.other++;
+
+      await nextTick();
+      expect(effect).toHaveBeenCalledTimes(1);
+    });
+
+    it('should track only the reads of the latest run', async () => {
+      const component = createMockComponent();
+      const state = createReactive(component, { useA: true, a: 0, b: 0 });
+      const effect = vi.fn(() => {
+        state.useA ? state.a : state.b;
+      });
+
+      createWatchEffect(component, effect);
+
+      state.useA = false;
+      await nextTick();
+      expect(effect).toHaveBeenCalledTimes(2);
+
+      state.a++;
+      await nextTick();
+      expect(effect).toHaveBeenCalledTimes(2);
+
+      state.b++;
+      await nextTick();
+      expect(effect).toHaveBeenCalledTimes(3);
+    });
+
+    it('should run the previous cleanup before re-running', async () => {
+      const component = createMockComponent();
+      const state = createReactive(component, { count: 0 });
+      const calls: string[] = [];
+
+      createWatchEffect(component, () => {
+        const count = state.count;
+        calls.push(`run ${count}`);
+        return () => calls.push(`cleanup ${count}`);
+      });
+
+      state.count = 1;
+      await nextTick();
+
+      expect(calls).toEqual(['run 0', 'cleanup 0', 'run 1']);
+    });
+
+    it('should run before the component update', async () => {
+      const component = createMockComponent();
+      const state = createReactive(component, { count: 0 });
+      const calls: string[] = [];
+      component.update = vi.fn(() => calls.push('update')) as any;
+
+      createWatchEffect(component, () => {
+        calls.push(`effect ${state.count}`);
+      });
+
+      state.count = 1;
+      await nextTick();
+
+      expect(calls).toEqual(['effect 0', 'effect 1', 'update']);
+    });
+
+    it('should stop and clean up when cleanups run', async () => {
+      const component = createMockComponent();
+      const state = createReactive(component, { count: 0 });
+      const cleanup = vi.fn();
+      const effect = vi.fn(() => {
+        state.count;
+        return cleanup;
+      });
+
+      createWatchEffect(component, effect);
+      component.__composables__.cleanups.slice().forEach((fn) => fn());
+      expect(cleanup).toHaveBeenCalledTimes(1);
+
+      state.count = 1;
+      await nextTick();
+      expect(effect).toHaveBeenCalledTimes(1);
+    });
+
+    it('should handle errors in the effect', async () => {
+      const consoleError = vi
+        .spyOn(console, 'error')
+        .mockImplementation(() => {});
+      const component = createMockComponent();
+      const state = createReactive(component, { count: 0 });
+      const effect = vi.fn(() => {
+        if (state.count > 0) {
+          throw new Error('Effect error');
+        }
+      });
+
+      createWatchEffect(component, effect);
+      state.count = 1;
+      await nextTick();
+
+      expect(consoleError).toHaveBeenCalledWith(
+        '[riot-composables] Error in watch effect:',
+        expect.any(Error),
+      );
+
+      consoleError.mockRestore();
+    });
+  });
 });
@@ -0,0 +1,31 @@
+import { describe, it, expectTypeOf } from 'vitest';
+import { installComposables } from '../../src/core/plugin';
+import { inject } from '../../src/core/inject';
+import { useInject } from '../../src/composables/useProvide';
+import type { EnhancedComponent, InjectionKey, Ref } from '../../src/types';
+
+declare const component: EnhancedComponent;
+
+const ThemeKey: InjectionKey<'light' | 'dark'> = Symbol('theme');
+const CountKey: InjectionKey<Ref<number>> = Symbol('count');
+
+describe('InjectionKey', () => {
+  it('should be created from a symbol', () => {
+    expectTypeOf(ThemeKey).toExtend<symbol>();
+  });
+
+  it('should key the app-level provides', () => {
+    installComposables({ provide: { [ThemeKey]: 'light', locale: 'fr' } });
+  });
+
+  it('should type the injected value', () => {
+    expectTypeOf(inject(component, ThemeKey)).toEqualTypeOf<
+      'light' | 'dark' | undefined
+    >();
+    expectTypeOf(inject(component, ThemeKey, 'dark')).toEqualTypeOf<
+      'light' | 'dark'
+    >();
+    expectTypeOf(useInject(CountKey)).toEqualTypeOf<Ref<number> | undefined>();
+    expectTypeOf(useInject<string>('locale', 'en')).toEqualTypeOf<string>();
+  });
+});